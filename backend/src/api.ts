@@ -0,0 +1,87 @@
+import { Router, type Request } from "express";
+import { allProfiles, getProfile, type Profile } from "./profiles";
+import { findClientId, findGame, loadGames, type GameRecord } from "./history";
+import { publicId } from "./session";
+import type {
+  GameDetail,
+  GameSummary,
+  LeaderboardEntry,
+  LeaderboardSort,
+  Page,
+  PlayerStats,
+} from "../../shared/protocol";
+
+// --- Read-only REST API ---
+// Players are addressed by public id; clientIds never leave the server.
+export const api = Router();
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function paginate<T>(req: Request, all: T[]): Page<T> {
+  const page = Math.max(1, Math.floor(Number(req.query.page)) || 1);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(Number(req.query.limit)) || DEFAULT_LIMIT));
+  return { items: all.slice((page - 1) * limit, page * limit), page, limit, total: all.length };
+}
+
+function playerStats(clientId: string, profile: Profile): PlayerStats {
+  const { name, rating, played, wins, losses, draws } = profile;
+  return { playerId: publicId(clientId), name, rating, played, wins, losses, draws };
+}
+
+function gameSummary(game: GameRecord): GameSummary {
+  const player = ({ clientId, name }: { clientId: string; name: string }) => ({
+    playerId: clientId ? publicId(clientId) : "",
+    name,
+  });
+  return {
+    id: game.id,
+    finishedAt: game.finishedAt,
+    settings: game.settings,
+    players: { X: player(game.players.X), O: player(game.players.O) },
+    result: game.result,
+    rated: game.rated ?? false,
+    moveCount: game.moves.length,
+  };
+}
+
+// GET /api/leaderboard?sort=rating|wins
+api.get("/leaderboard", (req, res) => {
+  const sort: LeaderboardSort = req.query.sort === "wins" ? "wins" : "rating";
+  const ranked = allProfiles()
+    .filter(([, profile]) => profile.played > 0)
+    .sort(([, a], [, b]) =>
+      sort === "wins" ? b.wins - a.wins || b.rating - a.rating : b.rating - a.rating || b.wins - a.wins
+    )
+    .map(([clientId, profile], index): LeaderboardEntry => ({ rank: index + 1, ...playerStats(clientId, profile) }));
+
+  res.json(paginate(req, ranked));
+});
+
+// GET /api/players/:playerId
+api.get("/players/:playerId", (req, res) => {
+  const clientId = findClientId(req.params.playerId);
+  if (!clientId) return res.status(404).json({ message: "Player not found" });
+  res.json(playerStats(clientId, getProfile(clientId)));
+});
+
+// GET /api/players/:playerId/games - newest first
+api.get("/players/:playerId/games", (req, res) => {
+  const clientId = findClientId(req.params.playerId);
+  if (!clientId) return res.status(404).json({ message: "Player not found" });
+
+  const played = loadGames()
+    .filter((game) => game.players.X.clientId === clientId || game.players.O.clientId === clientId)
+    .reverse()
+    .map(gameSummary);
+  res.json(paginate(req, played));
+});
+
+// GET /api/games/:gameId
+api.get("/games/:gameId", (req, res) => {
+  const game = findGame(req.params.gameId);
+  if (!game) return res.status(404).json({ message: "Game not found" });
+
+  const detail: GameDetail = { ...gameSummary(game), moves: game.moves };
+  res.json(detail);
+});
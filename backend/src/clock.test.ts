@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { clockTimeLeft, completeMove, createClock, pauseClock, runClock, type Clock } from "./clock";
+import type { TimeControl } from "../../shared/protocol";
+
+const blitz: TimeControl = { baseMs: 60_000, incrementMs: 2_000, moveMs: 0 };
+const perMove: TimeControl = { baseMs: 0, incrementMs: 0, moveMs: 30_000 };
+
+function started(tc: TimeControl): Clock {
+  const clock = createClock(tc);
+  if (!clock) throw new Error("expected a clock");
+  return clock;
+}
+
+describe("createClock", () => {
+  it("gives untimed rooms no clock", () => {
+    expect(createClock(null)).toBeNull();
+  });
+
+  it("starts both sides on the base time, stopped", () => {
+    expect(createClock(blitz)).toEqual({ remaining: { X: 60_000, O: 60_000 }, moveUsed: 0, running: null, runningSince: null });
+  });
+});
+
+describe("clockTimeLeft", () => {
+  it("counts down only the running side", () => {
+    const clock = started(blitz);
+    runClock(clock, "X", 1_000);
+    expect(clockTimeLeft(clock, blitz, "X", "X", 11_000)).toBe(50_000);
+    expect(clockTimeLeft(clock, blitz, "O", "X", 11_000)).toBe(60_000);
+  });
+
+  it("applies the per-move cap when that runs out first", () => {
+    const tc = { ...blitz, moveMs: 20_000 };
+    const clock = started(tc);
+    runClock(clock, "X", 0);
+    expect(clockTimeLeft(clock, tc, "X", "X", 5_000)).toBe(15_000);
+  });
+
+  it("uses only the per-move cap when there is no main time", () => {
+    const clock = started(perMove);
+    runClock(clock, "O", 0);
+    expect(clockTimeLeft(clock, perMove, "O", "O", 10_000)).toBe(20_000);
+    expect(clockTimeLeft(clock, perMove, "X", "O", 10_000)).toBe(30_000);
+  });
+
+  it("counts time already used on a paused move", () => {
+    const clock = started(perMove);
+    runClock(clock, "X", 0);
+    pauseClock(clock, 12_000);
+    expect(clockTimeLeft(clock, perMove, "X", "X", 50_000)).toBe(18_000);
+  });
+
+  it("never goes below zero", () => {
+    const clock = started(blitz);
+    runClock(clock, "X", 0);
+    expect(clockTimeLeft(clock, blitz, "X", "X", 90_000)).toBe(0);
+  });
+});
+
+describe("pauseClock", () => {
+  it("charges the running side and stops the clock", () => {
+    const clock = started(blitz);
+    runClock(clock, "O", 5_000);
+    pauseClock(clock, 8_000);
+    expect(clock).toEqual({ remaining: { X: 60_000, O: 57_000 }, moveUsed: 3_000, running: null, runningSince: null });
+  });
+
+  it("does nothing to a stopped clock", () => {
+    const clock = started(blitz);
+    pauseClock(clock, 8_000);
+    expect(clock.remaining).toEqual({ X: 60_000, O: 60_000 });
+  });
+});
+
+describe("completeMove", () => {
+  it("adds the increment and starts the next move from zero", () => {
+    const clock = started(blitz);
+    runClock(clock, "X", 0);
+    pauseClock(clock, 7_000);
+    completeMove(clock, blitz, "X");
+    expect(clock.remaining.X).toBe(55_000);
+    expect(clock.moveUsed).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+// clock.ts
+// Chess-clock arithmetic for timed rooms. A side flags when its main time runs out or when
+// one move takes longer than the per-move cap, whichever comes first. Timers live in server.ts.
+import type { PlayerRole, TimeControl } from "../../shared/protocol";
+
+export interface Clock {
+  remaining: Record<PlayerRole, number>;    // main time left per side
+  moveUsed: number;                         // time spent so far on the current move
+  running: PlayerRole | null;               // side whose clock is ticking
+  runningSince: number | null;              // Date.now() when it started ticking
+}
+
+export function createClock(timeControl: TimeControl | null): Clock | null {
+  if (!timeControl) return null;
+  const { baseMs } = timeControl;
+  return { remaining: { X: baseMs, O: baseMs }, moveUsed: 0, running: null, runningSince: null };
+}
+
+// Milliseconds until this side flags, counting the time ticking right now.
+// toMove is the side whose move it is; only that side has a move in progress.
+export function clockTimeLeft(
+  clock: Clock,
+  timeControl: TimeControl,
+  role: PlayerRole,
+  toMove: PlayerRole,
+  now = Date.now()
+): number {
+  let remaining = clock.remaining[role];
+  let moveUsed = toMove === role ? clock.moveUsed : 0;
+  if (clock.running === role && clock.runningSince !== null) {
+    const elapsed = now - clock.runningSince;
+    remaining -= elapsed;
+    moveUsed += elapsed;
+  }
+
+  const limits: number[] = [];
+  if (timeControl.baseMs > 0) limits.push(remaining);
+  if (timeControl.moveMs > 0) limits.push(timeControl.moveMs - moveUsed);
+  return Math.max(0, Math.min(...limits));
+}
+
+export function runClock(clock: Clock, role: PlayerRole, now = Date.now()) {
+  clock.running = role;
+  clock.runningSince = now;
+}
+
+// Charges the running side for the time used and stops ticking
+export function pauseClock(clock: Clock, now = Date.now()) {
+  if (!clock.running || clock.runningSince === null) return;
+
+  const elapsed = now - clock.runningSince;
+  clock.remaining[clock.running] -= elapsed;
+  clock.moveUsed += elapsed;
+  clock.running = null;
+  clock.runningSince = null;
+}
+
+// The mover finished a move: credit the increment and start the next move from zero
+export function completeMove(clock: Clock, timeControl: TimeControl, role: PlayerRole) {
+  clock.remaining[role] += timeControl.incrementMs;
+  clock.moveUsed = 0;
+}
@@ -0,0 +1,48 @@
+import { appendJsonLine, readJsonLines } from "./storage";
+import { publicId } from "./session";
+import type { GameResult, Move, PlayerRole, RoomSettings } from "../../shared/protocol";
+
+// One entry per finished game in games.jsonl; players are stored by clientId
+export interface GameRecord {
+  id: string;
+  roomId: string;
+  finishedAt: number;
+  settings: RoomSettings;
+  players: Record<PlayerRole, { clientId: string; name: string }>;
+  moves: Move[];
+  result: GameResult;
+  rated: boolean;                           // whether the game changed the players' ratings
+}
+
+// The log is read once; after that new games go to the file and to memory together
+const games = readJsonLines<GameRecord>("games");
+const gamesById = new Map<string, GameRecord>();
+const players = new Map<string, string>();  // public id -> clientId of everyone who finished a game
+for (const game of games) index(game);
+
+function index(game: GameRecord) {
+  gamesById.set(game.id, game);
+  for (const { clientId } of Object.values(game.players)) {
+    if (clientId) players.set(publicId(clientId), clientId);
+  }
+}
+
+export function saveGame(record: GameRecord) {
+  appendJsonLine("games", record);
+  games.push(record);
+  index(record);
+}
+
+// Every finished game, oldest first
+export function loadGames(): readonly GameRecord[] {
+  return games;
+}
+
+export function findGame(gameId: string): GameRecord | undefined {
+  return gamesById.get(gameId);
+}
+
+// The clientId behind a public id. Rated games are logged too, so this covers every profile.
+export function findClientId(playerId: string): string | null {
+  return players.get(playerId) ?? null;
+}
@@ -0,0 +1,18 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+// Room passwords are kept as "<salt>.<scrypt hash>" so saved rooms never hold the plain text
+const KEY_LENGTH = 32;
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("base64url");
+  return `${salt}.${scryptSync(password, salt, KEY_LENGTH).toString("base64url")}`;
+}
+
+export function checkPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(".");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64url");
+  const given = scryptSync(password, salt, KEY_LENGTH);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
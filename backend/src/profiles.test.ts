@@ -0,0 +1,59 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// Profiles are saved on every rated game, so keep them in a throwaway data directory
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "caro-profiles-"));
+let profiles: typeof import("./profiles");
+
+beforeAll(async () => {
+  process.env.DATA_DIR = dataDir;
+  profiles = await import("./profiles");
+});
+afterAll(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+let nextId = 0;
+const players = (x = `x${nextId++}`, o = `o${nextId++}`) => ({
+  X: { clientId: x, name: "Xavier" },
+  O: { clientId: o, name: "Olga" },
+});
+
+describe("rateGame", () => {
+  it("moves two new players 20 points apart after a decisive game", () => {
+    const game = players();
+    profiles.rateGame(game, { winner: "X", reason: "five" });
+    expect(profiles.ratingOf(game.X.clientId)).toBe(1520);
+    expect(profiles.ratingOf(game.O.clientId)).toBe(1480);
+  });
+
+  it("leaves equal players unchanged after a draw", () => {
+    const game = players();
+    profiles.rateGame(game, { winner: null, reason: "draw-agreed" });
+    expect(profiles.ratingOf(game.X.clientId)).toBe(1500);
+    expect(profiles.getProfile(game.O.clientId)).toMatchObject({ played: 1, draws: 1, wins: 0, losses: 0 });
+  });
+
+  it("gives more than 20 points for beating a higher-rated player", () => {
+    const strong = players();
+    profiles.rateGame(strong, { winner: "X", reason: "five" }); // X ends up at 1520
+    const upset = players(undefined, strong.X.clientId);
+    profiles.rateGame(upset, { winner: "X", reason: "resign" });
+    expect(profiles.ratingOf(upset.X.clientId) - 1500).toBeGreaterThan(20);
+  });
+
+  it("halves the step once a player has 20 games", () => {
+    const veteran = "veteran";
+    for (let i = 0; i < 20; i++) profiles.rateGame(players(veteran), { winner: null, reason: "draw-agreed" });
+    const before = profiles.ratingOf(veteran);
+    profiles.rateGame(players(veteran), { winner: "X", reason: "five" });
+    expect(profiles.ratingOf(veteran) - before).toBe(10);
+  });
+
+  it("keeps the totals and latest name", () => {
+    const game = players();
+    profiles.rateGame(game, { winner: "O", reason: "timeout" });
+    expect(profiles.getProfile(game.X.clientId)).toMatchObject({ name: "Xavier", played: 1, wins: 0, losses: 1 });
+    expect(profiles.getProfile(game.O.clientId)).toMatchObject({ name: "Olga", played: 1, wins: 1, losses: 0 });
+  });
+});
@@ -0,0 +1,61 @@
+import { loadJson, saveJson } from "./storage";
+import type { GameResult, PlayerRole } from "../../shared/protocol";
+
+// Player profiles keyed by clientId, which lives as long as the client keeps its session token
+export interface Profile {
+  name: string;                             // display name used in the player's latest rated game
+  rating: number;
+  played: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+const INITIAL_RATING = 1500;
+const PROVISIONAL_GAMES = 20;               // new players move faster until their rating settles
+const K_PROVISIONAL = 40;
+const K_ESTABLISHED = 20;
+
+const profiles = loadJson<Record<string, Profile>>("profiles", {});
+
+function newProfile(): Profile {
+  return { name: "", rating: INITIAL_RATING, played: 0, wins: 0, losses: 0, draws: 0 };
+}
+
+export function getProfile(clientId: string): Profile {
+  return profiles[clientId] ?? newProfile();
+}
+
+// Everyone who has finished at least one rated game
+export function allProfiles(): [string, Profile][] {
+  return Object.entries(profiles);
+}
+
+export function ratingOf(clientId: string) {
+  return getProfile(clientId).rating;
+}
+
+// Applies an Elo update for one finished game and saves every profile.
+// players maps each role to the clientId and name of whoever played it.
+export function rateGame(players: Record<PlayerRole, { clientId: string; name: string }>, result: GameResult) {
+  const x = (profiles[players.X.clientId] ??= newProfile());
+  const o = (profiles[players.O.clientId] ??= newProfile());
+
+  const expectedX = 1 / (1 + 10 ** ((o.rating - x.rating) / 400));
+  const scoreX = result.winner === "X" ? 1 : result.winner === "O" ? 0 : 0.5;
+  const kFactor = (p: Profile) => (p.played < PROVISIONAL_GAMES ? K_PROVISIONAL : K_ESTABLISHED);
+
+  const deltaX = Math.round(kFactor(x) * (scoreX - expectedX));
+  const deltaO = Math.round(kFactor(o) * (expectedX - scoreX));
+
+  for (const [profile, delta, role] of [[x, deltaX, "X"], [o, deltaO, "O"]] as const) {
+    profile.name = players[role].name || profile.name;
+    profile.rating += delta;
+    profile.played += 1;
+    if (!result.winner) profile.draws += 1;
+    else if (result.winner === role) profile.wins += 1;
+    else profile.losses += 1;
+  }
+
+  saveJson("profiles", profiles);
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { allow, banRemaining, clientKey, ipKey, strike } from "./rateLimit";
+
+// Buckets are module state, so every test uses its own keys
+let nextId = 0;
+const freshClient = () => clientKey(`client-${nextId++}`);
+const freshIp = () => ipKey(`10.0.0.${nextId++}`);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+afterEach(() => vi.useRealTimers());
+
+const allowed = (event: string, keys: string[], times: number) =>
+  Array.from({ length: times }, () => allow(event, keys)).filter(Boolean).length;
+
+describe("allow", () => {
+  it("lets a burst through and then rejects", () => {
+    const key = freshClient();
+    expect(allowed("chat-message", [key], 5)).toBe(5);
+    expect(allow("chat-message", [key])).toBe(false);
+  });
+
+  it("refills at the event's rate", () => {
+    const key = freshClient();
+    allowed("chat-message", [key], 5);
+    vi.advanceTimersByTime(1000);
+    expect(allow("chat-message", [key])).toBe(true);
+    expect(allow("chat-message", [key])).toBe(false);
+  });
+
+  it("never refills past the burst", () => {
+    const key = freshClient();
+    vi.advanceTimersByTime(60_000);
+    expect(allowed("chat-message", [key], 10)).toBe(5);
+  });
+
+  it("uses the default limit for unlisted events", () => {
+    expect(allowed("make-move", [freshClient()], 30)).toBe(20);
+  });
+
+  it("gives addresses larger buckets than clients", () => {
+    expect(allowed("chat-message", [freshIp()], 30)).toBe(20);
+  });
+
+  it("keeps separate buckets per event", () => {
+    const key = freshClient();
+    allowed("chat-message", [key], 5);
+    expect(allow("make-move", [key])).toBe(true);
+  });
+
+  it("rejects when any of the keys is out of tokens", () => {
+    const ip = freshIp();
+    for (let i = 0; i < 4; i++) allowed("chat-message", [freshClient(), ip], 5);
+    expect(allow("chat-message", [freshClient(), ip])).toBe(false);
+  });
+});
+
+describe("strike", () => {
+  it("bans the client, not its address, after enough strikes in the window", () => {
+    const keys = [freshClient(), freshIp()];
+    for (let i = 0; i < 19; i++) expect(strike(keys)).toBe(0);
+    expect(strike(keys)).toBe(10 * 60 * 1000);
+    expect(banRemaining([keys[0]])).toBe(10 * 60 * 1000);
+    expect(banRemaining([keys[1]])).toBe(0);
+  });
+
+  it("bans an address only after many more strikes", () => {
+    const ip = freshIp();
+    for (let i = 0; i < 199; i++) expect(strike([ip])).toBe(0);
+    expect(strike([ip])).toBe(10 * 60 * 1000);
+    expect(banRemaining([freshClient(), ip])).toBe(10 * 60 * 1000);
+  });
+
+  it("forgets strikes older than the window", () => {
+    const keys = [freshClient()];
+    for (let i = 0; i < 19; i++) strike(keys);
+    vi.advanceTimersByTime(60_000);
+    expect(strike(keys)).toBe(0);
+  });
+
+  it("lifts the ban once it has run out", () => {
+    const keys = [freshClient()];
+    for (let i = 0; i < 20; i++) strike(keys);
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    expect(banRemaining(keys)).toBe(6 * 60 * 1000);
+    vi.advanceTimersByTime(6 * 60 * 1000);
+    expect(banRemaining(keys)).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+// rateLimit.ts
+// Token buckets per event, kept separately for each client and each IP address.
+// A bucket holds up to `burst` requests and refills at `perSecond`; an empty bucket rejects the request.
+
+export interface Limit {
+  burst: number;
+  perSecond: number;
+}
+
+export interface RateLimitConfig {
+  events: Record<string, Limit>;            // per-client limits; "default" covers unlisted events
+  ipFactor: number;                         // IP buckets are this many times larger (shared tabs / NAT)
+  strikes: number;                          // rejected requests within strikeWindowMs that get a client banned
+  ipStrikes: number;                        // the same for an address, which many clients may share behind a proxy
+  strikeWindowMs: number;
+  banMs: number;
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+  events: {
+    "default": { burst: 20, perSecond: 5 },
+    "connect": { burst: 10, perSecond: 0.5 },
+    "requestRoom": { burst: 3, perSecond: 0.1 },
+    "join-room": { burst: 5, perSecond: 0.2 },           // also caps password guessing
+    "chat-message": { burst: 5, perSecond: 1 },
+    "get-name": { burst: 5, perSecond: 0.2 },
+    "propose-new-game": { burst: 2, perSecond: 0.1 },
+    "propose-switch-roles": { burst: 2, perSecond: 0.1 },
+    "propose-takeback": { burst: 3, perSecond: 0.2 },
+    "offer-draw": { burst: 2, perSecond: 0.1 },
+  },
+  ipFactor: 4,
+  strikes: 20,
+  ipStrikes: 200,
+  strikeWindowMs: 60 * 1000,
+  banMs: 10 * 60 * 1000,
+};
+
+// RATE_LIMITS may hold a JSON object overriding any part of the defaults,
+// e.g. {"events":{"chat-message":{"burst":10,"perSecond":2}},"banMs":60000}
+function loadConfig(): RateLimitConfig {
+  if (!process.env.RATE_LIMITS) return DEFAULT_CONFIG;
+  try {
+    const overrides = JSON.parse(process.env.RATE_LIMITS) as Partial<RateLimitConfig>;
+    return {
+      ...DEFAULT_CONFIG,
+      ...overrides,
+      events: { ...DEFAULT_CONFIG.events, ...overrides.events },
+    };
+  } catch (err) {
+    console.error("Ignoring invalid RATE_LIMITS:", err);
+    return DEFAULT_CONFIG;
+  }
+}
+
+const config = loadConfig();
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, Bucket>();       // "<event> <key>" -> bucket
+const strikes = new Map<string, number[]>();     // key -> times of recent rejected requests
+const bans = new Map<string, number>();          // key -> time the ban ends
+
+// Keys are "client:<id>" or "ip:<address>"
+export const clientKey = (clientId: string) => `client:${clientId}`;
+export const ipKey = (address: string) => `ip:${address}`;
+
+function limitFor(event: string, key: string): Limit {
+  const limit = config.events[event] ?? config.events.default;
+  return key.startsWith("ip:")
+    ? { burst: limit.burst * config.ipFactor, perSecond: limit.perSecond * config.ipFactor }
+    : limit;
+}
+
+function take(event: string, key: string, now: number) {
+  const id = `${event} ${key}`;
+  const limit = limitFor(event, key);
+  const bucket = buckets.get(id) ?? { tokens: limit.burst, updatedAt: now };
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond);
+  bucket.updatedAt = now;
+  buckets.set(id, bucket);
+
+  if (bucket.tokens < 1) return false;
+  bucket.tokens -= 1;
+  return true;
+}
+
+// Takes a token from every given bucket; the request passes only if none is empty
+export function allow(event: string, keys: string[]) {
+  const now = Date.now();
+
+  let allowed = true;
+  for (const key of keys) {
+    if (!take(event, key, now)) allowed = false;
+  }
+  return allowed;
+}
+
+// Records a rejected request against every key; a key with too many in a short time is banned.
+// Only that key is banned, so one client flooding does not lock out everyone at its address.
+// Returns the ban length in ms, or 0 if no ban was issued.
+export function strike(keys: string[]) {
+  const now = Date.now();
+  let banned = false;
+
+  for (const key of keys) {
+    const recent = (strikes.get(key) ?? []).filter((time) => now - time < config.strikeWindowMs);
+    recent.push(now);
+    if (recent.length < (key.startsWith("ip:") ? config.ipStrikes : config.strikes)) {
+      strikes.set(key, recent);
+      continue;
+    }
+    bans.set(key, now + config.banMs);
+    strikes.delete(key);
+    banned = true;
+  }
+  return banned ? config.banMs : 0;
+}
+
+// Time left on the longest ban among the keys, 0 if none is banned
+export function banRemaining(keys: string[]) {
+  const now = Date.now();
+  return Math.max(0, ...keys.map((key) => (bans.get(key) ?? 0) - now));
+}
+
+// Drop full buckets and expired strikes / bans so idle clients do not pile up in memory
+const SWEEP_MS = 60 * 1000;
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, bucket] of buckets) {
+    const split = id.indexOf(" ");
+    const limit = limitFor(id.slice(0, split), id.slice(split + 1));
+    if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.perSecond >= limit.burst) buckets.delete(id);
+  }
+  for (const [key, times] of strikes) {
+    if (times.every((time) => now - time >= config.strikeWindowMs)) strikes.delete(key);
+  }
+  for (const [key, until] of bans) {
+    if (until <= now) bans.delete(key);
+  }
+}, SWEEP_MS).unref();
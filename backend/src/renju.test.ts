@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { findForbiddenPoints, forbiddenReason } from "./renju";
+
+type Cell = "X" | "O" | null;
+
+// An empty 15x15 board with X (and O) stones at "row,col" points
+function board(x: string[], o: string[] = []): Cell[][] {
+  const grid: Cell[][] = Array.from({ length: 15 }, () => Array(15).fill(null));
+  for (const [stones, cell] of [[x, "X"], [o, "O"]] as const) {
+    for (const point of stones) {
+      const [row, col] = point.split(",").map(Number);
+      grid[row][col] = cell;
+    }
+  }
+  return grid;
+}
+
+const has = (points: { row: number; col: number }[], row: number, col: number) =>
+  points.some((p) => p.row === row && p.col === col);
+
+describe("forbiddenReason", () => {
+  it("allows an empty board and a lone three", () => {
+    expect(forbiddenReason(board([]), 7, 7)).toBeNull();
+    expect(forbiddenReason(board(["7,6", "7,8"]), 7, 7)).toBeNull();
+  });
+
+  it("forbids two open threes", () => {
+    expect(forbiddenReason(board(["7,6", "7,8", "6,7", "8,7"]), 7, 7)).toBe("double-three");
+  });
+
+  it("does not count a three that O has closed", () => {
+    expect(forbiddenReason(board(["7,6", "7,8", "6,7", "8,7"], ["7,5"]), 7, 7)).toBeNull();
+  });
+
+  it("forbids fours on two lines", () => {
+    expect(forbiddenReason(board(["7,4", "7,5", "7,6", "4,7", "5,7", "6,7"]), 7, 7)).toBe("double-four");
+  });
+
+  it("forbids two fours on one line", () => {
+    expect(forbiddenReason(board(["7,4", "7,6", "7,8", "7,10"]), 7, 7)).toBe("double-four");
+  });
+
+  it("forbids an overline", () => {
+    expect(forbiddenReason(board(["7,1", "7,2", "7,3", "7,4", "7,6"]), 7, 5)).toBe("overline");
+  });
+
+  it("lets an exact five win even when it makes a forbidden shape", () => {
+    const x = ["7,3", "7,4", "7,5", "7,6", "6,7", "8,7", "6,6", "8,8"];
+    expect(forbiddenReason(board(x), 7, 7)).toBeNull();
+  });
+
+  it("leaves the board as it found it", () => {
+    const grid = board(["7,4", "7,6", "7,8", "7,10"]);
+    const before = JSON.stringify(grid);
+    forbiddenReason(grid, 7, 7);
+    expect(JSON.stringify(grid)).toBe(before);
+  });
+});
+
+describe("findForbiddenPoints", () => {
+  it("finds a double-four along a single line", () => {
+    expect(has(findForbiddenPoints(board(["7,4", "7,6", "7,8", "7,10"])), 7, 7)).toBe(true);
+  });
+
+  it("finds an overline point", () => {
+    expect(has(findForbiddenPoints(board(["7,1", "7,2", "7,3", "7,4", "7,6"])), 7, 5)).toBe(true);
+  });
+
+  it("agrees with forbiddenReason on every point", () => {
+    const grid = board(["7,4", "7,6", "7,8", "7,10", "5,5", "6,6", "9,4", "9,5"], ["8,8"]);
+    const points = findForbiddenPoints(grid);
+    for (let row = 0; row < 15; row++) {
+      for (let col = 0; col < 15; col++) {
+        if (grid[row][col] !== null) continue;
+        expect(has(points, row, col)).toBe(forbiddenReason(grid, row, col) !== null);
+      }
+    }
+  });
+});
@@ -0,0 +1,138 @@
+// renju.ts
+// Forbidden-move detection for the first player (X) under Renju rules:
+// X may not make a double-three, a double-four or an overline. An exact five always wins.
+
+type Cell = "X" | "O" | null;
+type Point = { row: number; col: number };
+
+export type ForbiddenReason = "double-three" | "double-four" | "overline";
+
+const DIRECTIONS = [
+  { dr: 0, dc: 1 },
+  { dr: 1, dc: 0 },
+  { dr: 1, dc: 1 },
+  { dr: 1, dc: -1 },
+];
+
+// How deep the "is this three really open?" check recurses into the extension point
+const THREE_CHECK_DEPTH = 2;
+
+function inBounds(board: Cell[][], r: number, c: number) {
+  return r >= 0 && r < board.length && c >= 0 && c < board[0].length;
+}
+
+// Offsets [start, end] of the unbroken X run through (row, col) along one direction
+function runBounds(board: Cell[][], row: number, col: number, dr: number, dc: number) {
+  let start = 0, end = 0;
+  while (inBounds(board, row + (start - 1) * dr, col + (start - 1) * dc) &&
+    board[row + (start - 1) * dr][col + (start - 1) * dc] === "X") start--;
+  while (inBounds(board, row + (end + 1) * dr, col + (end + 1) * dc) &&
+    board[row + (end + 1) * dr][col + (end + 1) * dc] === "X") end++;
+  return { start, end };
+}
+
+function runLength(board: Cell[][], row: number, col: number, dr: number, dc: number) {
+  const { start, end } = runBounds(board, row, col, dr, dc);
+  return end - start + 1;
+}
+
+// Fours through (row, col) along one direction, keyed by the four stones they are made of.
+// The value is how many empty points complete that four to exactly five (2 = straight four).
+function fours(board: Cell[][], row: number, col: number, dr: number, dc: number) {
+  const found = new Map<string, number>();
+
+  for (let k = -4; k <= 4; k++) {
+    if (k === 0) continue;
+    const r = row + k * dr, c = col + k * dc;
+    if (!inBounds(board, r, c) || board[r][c] !== null) continue;
+
+    board[r][c] = "X";
+    const { start, end } = runBounds(board, row, col, dr, dc);
+    board[r][c] = null;
+
+    if (end - start + 1 !== 5) continue;
+    const stones = [];
+    for (let i = start; i <= end; i++) if (i !== k) stones.push(i);
+    const key = stones.join(",");
+    found.set(key, (found.get(key) ?? 0) + 1);
+  }
+
+  return found;
+}
+
+// A three is open if one more stone on the line makes a straight four,
+// and that extra stone is not itself forbidden.
+function isOpenThree(board: Cell[][], row: number, col: number, dr: number, dc: number, depth: number) {
+  for (let k = -4; k <= 4; k++) {
+    if (k === 0) continue;
+    const r = row + k * dr, c = col + k * dc;
+    if (!inBounds(board, r, c) || board[r][c] !== null) continue;
+
+    board[r][c] = "X";
+    const straightFour = [...fours(board, row, col, dr, dc).values()].some((n) => n >= 2);
+    board[r][c] = null;
+
+    if (straightFour && !forbiddenReason(board, r, c, depth - 1)) return true;
+  }
+  return false;
+}
+
+// Why X may not play at (row, col), or null if the move is allowed
+export function forbiddenReason(
+  board: Cell[][],
+  row: number,
+  col: number,
+  depth = THREE_CHECK_DEPTH
+): ForbiddenReason | null {
+  if (board[row][col] !== null) return null;
+
+  board[row][col] = "X";
+  try {
+    // An exact five wins even if it also makes a forbidden shape
+    if (DIRECTIONS.some(({ dr, dc }) => runLength(board, row, col, dr, dc) === 5)) return null;
+
+    if (DIRECTIONS.some(({ dr, dc }) => runLength(board, row, col, dr, dc) > 5)) return "overline";
+
+    let fourCount = 0;
+    let threeCount = 0;
+    for (const { dr, dc } of DIRECTIONS) {
+      const lineFours = fours(board, row, col, dr, dc).size;
+      fourCount += lineFours;
+      if (lineFours === 0 && depth > 0 && isOpenThree(board, row, col, dr, dc, depth)) threeCount++;
+    }
+
+    if (fourCount >= 2) return "double-four";
+    if (threeCount >= 2) return "double-three";
+    return null;
+  } finally {
+    board[row][col] = null;
+  }
+}
+
+// Quick filter: a forbidden shape needs four X stones near the point on one line (an overline or
+// a double-four along that line, like X.X?X.X) or two lines with two X stones each
+function couldBeForbidden(board: Cell[][], row: number, col: number) {
+  let busyLines = 0;
+  for (const { dr, dc } of DIRECTIONS) {
+    let stones = 0;
+    for (let k = -4; k <= 4; k++) {
+      const r = row + k * dr, c = col + k * dc;
+      if (k !== 0 && inBounds(board, r, c) && board[r][c] === "X") stones++;
+    }
+    if (stones >= 4) return true;
+    if (stones >= 2) busyLines++;
+  }
+  return busyLines >= 2;
+}
+
+// Every empty point where X is currently not allowed to play
+export function findForbiddenPoints(board: Cell[][]): Point[] {
+  const points: Point[] = [];
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (board[row][col] !== null || !couldBeForbidden(board, row, col)) continue;
+      if (forbiddenReason(board, row, col)) points.push({ row, col });
+    }
+  }
+  return points;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { checkWin, pointKey } from "./rules";
+import type { RoomSettings, Stones } from "../../shared/protocol";
+
+const freestyle: RoomSettings = {
+  boardWidth: 15,
+  boardHeight: 15,
+  winLength: 5,
+  blockedEnds: false,
+  noOverline: false,
+  renju: false,
+  opening: "none",
+  timeControl: null,
+  takebacks: 0,
+  isPublic: false,
+  seriesLength: null,
+  rated: false,
+  infinite: false,
+};
+
+// X (and O) stones at "row,col" points
+function stones(x: string[], o: string[] = []): Stones {
+  const result: Stones = {};
+  for (const point of x) result[point] = "X";
+  for (const point of o) result[point] = "O";
+  return result;
+}
+
+// Columns first..last of one row, as "row,col" points
+const row = (r: number, first: number, last: number) =>
+  Array.from({ length: last - first + 1 }, (_, i) => pointKey(r, first + i));
+
+const cols = (line: { row: number; col: number }[] | undefined) => line?.map((p) => p.col);
+
+describe("checkWin", () => {
+  it("wins with five in a row and returns the line", () => {
+    const win = checkWin(stones(row(7, 3, 7)), 7, 5, freestyle);
+    expect(win?.winner).toBe("X");
+    expect(cols(win?.line)).toEqual([3, 4, 5, 6, 7]);
+  });
+
+  it("does not win with four", () => {
+    expect(checkWin(stones(row(7, 3, 6)), 7, 6, freestyle)).toBeNull();
+  });
+
+  it("finds diagonal lines", () => {
+    const x = [0, 1, 2, 3, 4].map((i) => pointKey(4 + i, 10 - i));
+    expect(checkWin(stones(x), 6, 8, freestyle)?.line).toHaveLength(5);
+  });
+
+  it("uses the room's win length", () => {
+    expect(checkWin(stones(row(7, 3, 6)), 7, 6, { ...freestyle, winLength: 4 })?.winner).toBe("X");
+    expect(checkWin(stones(row(7, 3, 7)), 7, 7, { ...freestyle, winLength: 6 })).toBeNull();
+  });
+
+  it("does not count a run blocked at both ends when blockedEnds is on", () => {
+    const board = stones(row(7, 3, 7), ["7,2", "7,8"]);
+    expect(checkWin(board, 7, 5, { ...freestyle, blockedEnds: true })).toBeNull();
+    expect(checkWin(board, 7, 5, freestyle)?.winner).toBe("X");
+  });
+
+  it("still wins when one end is the board edge", () => {
+    const board = stones(row(0, 0, 4), ["0,5"]);
+    expect(checkWin(board, 0, 4, { ...freestyle, blockedEnds: true })?.winner).toBe("X");
+  });
+
+  it("does not count six when noOverline is on", () => {
+    const board = stones(row(7, 2, 7));
+    expect(checkWin(board, 7, 7, { ...freestyle, noOverline: true })).toBeNull();
+    expect(checkWin(board, 7, 7, freestyle)?.winner).toBe("X");
+  });
+
+  it("trims a longer run to five that keep the stone just played", () => {
+    const board = stones(row(7, 2, 7));
+    expect(cols(checkWin(board, 7, 7, freestyle)?.line)).toEqual([3, 4, 5, 6, 7]);
+    expect(cols(checkWin(board, 7, 2, freestyle)?.line)).toEqual([2, 3, 4, 5, 6]);
+    expect(cols(checkWin(board, 7, 4, freestyle)?.line)).toContain(4);
+  });
+});
@@ -0,0 +1,83 @@
+// rules.ts
+// Stones on the board and the win check. Boards are stored sparsely as "row,col" -> role,
+// so an infinite board only costs what has been played on it.
+import { MAX_COORDINATE, type Move, type PlayerRole, type RoomSettings, type Stones } from "../../shared/protocol";
+
+export function pointKey(row: number, col: number) {
+  return `${row},${col}`;
+}
+
+export function stoneAt(stones: Stones, row: number, col: number): PlayerRole | null {
+  return stones[pointKey(row, col)] ?? null;
+}
+
+export function onBoard(settings: RoomSettings, row: number, col: number) {
+  if (settings.infinite) return Math.abs(row) <= MAX_COORDINATE && Math.abs(col) <= MAX_COORDINATE;
+  return row >= 0 && row < settings.boardHeight && col >= 0 && col < settings.boardWidth;
+}
+
+export function stonesFromMoves(moves: Move[]): Stones {
+  return Object.fromEntries(moves.map(({ row, col, role }) => [pointKey(row, col), role]));
+}
+
+// Dense copy for the Renju checks, which only run on fixed-size boards
+export function toGrid(stones: Stones, settings: RoomSettings): (PlayerRole | null)[][] {
+  const grid: (PlayerRole | null)[][] = Array.from({ length: settings.boardHeight }, () =>
+    Array(settings.boardWidth).fill(null)
+  );
+  for (const [key, role] of Object.entries(stones)) {
+    const [row, col] = key.split(",").map(Number);
+    grid[row][col] = role;
+  }
+  return grid;
+}
+
+// --- check win ---
+// Only the winLength stones that count are returned as the line, even when the run is longer.
+export function checkWin(stones: Stones, row: number, col: number, settings: RoomSettings) {
+  const { winLength, blockedEnds, noOverline } = settings;
+  const marker = stoneAt(stones, row, col);
+  if (!marker) return null;
+
+  // Only a fixed board's edge caps a run; an infinite board has none
+  const inBounds = (r: number, c: number) => onBoard(settings, r, c);
+
+  const directions = [
+    { dr: 0, dc: 1 },
+    { dr: 1, dc: 0 },
+    { dr: 1, dc: 1 },
+    { dr: 1, dc: -1 },
+  ];
+
+  for (const { dr, dc } of directions) {
+    // Walk both ways so the run ends up ordered from one end to the other
+    const before: { row: number; col: number }[] = [];
+    let r = row - dr, c = col - dc;
+    while (inBounds(r, c) && stoneAt(stones, r, c) === marker) {
+      before.unshift({ row: r, col: c });
+      r -= dr; c -= dc;
+    }
+    const startCapped = inBounds(r, c) && stoneAt(stones, r, c) !== null;
+
+    const after: { row: number; col: number }[] = [];
+    r = row + dr; c = col + dc;
+    while (inBounds(r, c) && stoneAt(stones, r, c) === marker) {
+      after.push({ row: r, col: c });
+      r += dr; c += dc;
+    }
+    const endCapped = inBounds(r, c) && stoneAt(stones, r, c) !== null;
+
+    const points = [...before, { row, col }, ...after];
+    const count = points.length;
+
+    if (count < winLength) continue;
+    if (noOverline && count > winLength) continue;
+    if (blockedEnds && startCapped && endCapped) continue;
+
+    // Keep a winLength window that still contains the stone just played
+    const start = Math.min(before.length, count - winLength);
+    return { winner: marker, line: points.slice(start, start + winLength) };
+  }
+
+  return null;
+}
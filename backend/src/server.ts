@@ -1,7 +1,36 @@
 import http from "http";
 import express from "express";
 import cors from "cors";
-import { Server } from "socket.io";
+import { Server, type Socket } from "socket.io";
+import { randomInt, randomUUID } from "crypto";
+import { findForbiddenPoints, forbiddenReason } from "./renju";
+import { checkWin, onBoard, pointKey, stoneAt, stonesFromMoves, toGrid } from "./rules";
+import { loadJson, saveJson } from "./storage";
+import { issueSession, verifyToken, publicId } from "./session";
+import { validated } from "./validation";
+import { allow, strike, banRemaining, clientKey, ipKey } from "./rateLimit";
+import { rateGame, ratingOf } from "./profiles";
+import { saveGame, type GameRecord } from "./history";
+import { api } from "./api";
+import { checkPassword, hashPassword } from "./passwords";
+import { clockTimeLeft, completeMove, createClock, pauseClock, runClock, type Clock } from "./clock";
+import {
+  MIN_BOARD_SIZE,
+  MAX_BOARD_SIZE,
+  MAX_SERIES_LENGTH,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type PlayerRole,
+  type OpeningRule,
+  type OpeningStage,
+  type Move,
+  type GameResult,
+  type RoomSettings,
+  type ChatMessage,
+  type LobbyRoom,
+  type SeriesState,
+  type Stones,
+} from "../../shared/protocol";
 
 const app = express();
 app.use(cors());
@@ -10,15 +39,13 @@ app.use(express.json());
 const server = http.createServer(app);
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:5173";
 
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
   cors: {
     origin: FRONTEND_URL,
     methods: ["GET", "POST"],
   },
 });
 
-type PlayerRole = "X" | "O";
-
 interface Room {
   players: Record<string, PlayerRole>;      // clientId -> role
   roleMap: Record<PlayerRole, string>;      // role -> clientId
@@ -26,64 +53,550 @@ interface Room {
   names: Record<string, string>;            // clientId -> display name
   scores: Record<string, number>;           // clientId -> score
   hostId: string;                           // clientId of current host
-  board: (PlayerRole | null)[][];
+  settings: RoomSettings;                   // chosen by the host at creation
+  stones: Stones;                           // occupied points only, so an infinite board costs nothing until played on
   turnNumber: number;
-  winner: PlayerRole | null;
+  result: GameResult | null;                // null while the game is in progress
   winningLine?: { row: number; col: number }[];
-  messages: { sender: string; text: string }[]; // chat messages in the room
+  moves: Move[];                            // every stone placed this game, in order
+  openingMoves: number;                     // opening stones at the start of moves (never taken back)
+  takebacksUsed: Record<string, number>;    // clientId -> takebacks used this game
+  pendingTakeback: string | null;           // clientId waiting for an answer to a takeback request
+  pendingDraw: string | null;               // clientId waiting for an answer to a draw offer
+  pendingNewGame: string | null;            // clientId waiting for an answer to a new game proposal
+  pendingSwitch: string | null;             // clientId waiting for an answer to a colour swap proposal
+  opening: OpeningStage | null;             // null once colours are settled
+  clock: Clock | null;                      // null for untimed rooms
+  messages: ChatMessage[];                  // chat messages in the room, sender is a clientId
+  spectators: Record<string, { socketId: string; name: string }>; // clientId -> watcher (not saved)
+  spectatorMessages: ChatMessage[];         // spectator chat, sender is a display name
+  series: SeriesState | null;               // best-of-N progress keyed by clientId, null for open-ended rooms
+  password: string | null;                  // hashed, null when the room code alone lets you in
+  locked: boolean;                          // no new players or spectators while set
+  banned: string[];                         // clientIds the host has kicked for good
+  admitted: string[];                       // clientIds let in so far; they can come back without the password
+  lastActivity: number;                     // Date.now() of the last event for this room, for idle expiry
 }
 
 const rooms: Record<string, Room> = {};
-const BOARD_WIDTH = 18;
-const BOARD_HEIGHT = 25;
-const WIN_LENGTH = 5;
-
+const DEFAULT_SETTINGS: RoomSettings = {
+  boardWidth: 18,
+  boardHeight: 25,
+  winLength: 5,
+  blockedEnds: false,
+  noOverline: false,
+  renju: false,
+  opening: "none",
+  timeControl: null,
+  takebacks: 0,
+  isPublic: false,
+  seriesLength: null,
+  rated: false,
+  infinite: false,
+};
+const WIN_LENGTHS = [4, 5, 6];
+const OPENING_RULES: OpeningRule[] = ["none", "swap", "swap2"];
+const MAX_BASE_MS = 60 * 60 * 1000;
+const MAX_INCREMENT_MS = 60 * 1000;
+const MAX_MOVE_MS = 5 * 60 * 1000;
+const MAX_TAKEBACKS = 99;
+
+const clockTimers: Record<string, NodeJS.Timeout> = {}; // roomId -> pending flag-fall timer
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 60 * 1000;
+const graceTimers: Record<string, { clientId: string; deadline: number; timer: NodeJS.Timeout }> = {}; // roomId -> seat held for a disconnected player
+const SAVE_DELAY_MS = 1000;
+let saveTimer: NodeJS.Timeout | null = null;
+
+const ROOM_ID_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+// Room codes are the only thing standing between a stranger and an unprotected room, so they must not be guessable
 function generateRoomId(length = 6) {
-  return Math.random().toString(36).substring(2, 2 + length);
+  let id = "";
+  for (let i = 0; i < length; i++) id += ROOM_ID_ALPHABET[randomInt(ROOM_ID_ALPHABET.length)];
+  return id;
 }
 
-// --- check win ---
-function checkWin(board: (PlayerRole | null)[][], row: number, col: number) {
-  const marker = board[row][col];
-  if (!marker) return null;
+// --- Room settings ---
+// Fills in defaults for anything the host left out and returns an error message if a value is not allowed.
+function parseSettings(input: Partial<RoomSettings> = {}): { settings?: RoomSettings; error?: string } {
+  const settings: RoomSettings = {
+    boardWidth: input.boardWidth ?? DEFAULT_SETTINGS.boardWidth,
+    boardHeight: input.boardHeight ?? DEFAULT_SETTINGS.boardHeight,
+    winLength: input.winLength ?? DEFAULT_SETTINGS.winLength,
+    blockedEnds: !!input.blockedEnds,
+    noOverline: !!input.noOverline,
+    renju: !!input.renju,
+    opening: input.opening ?? DEFAULT_SETTINGS.opening,
+    timeControl: input.timeControl ?? DEFAULT_SETTINGS.timeControl,
+    takebacks: input.takebacks === undefined ? DEFAULT_SETTINGS.takebacks : input.takebacks,
+    isPublic: !!input.isPublic,
+    seriesLength: input.seriesLength ?? DEFAULT_SETTINGS.seriesLength,
+    rated: !!input.rated,
+    infinite: !!input.infinite,
+  };
 
-  const directions = [
-    { dr: 0, dc: 1 },
-    { dr: 1, dc: 0 },
-    { dr: 1, dc: 1 },
-    { dr: 1, dc: -1 },
-  ];
+  for (const size of [settings.boardWidth, settings.boardHeight]) {
+    if (!Number.isInteger(size) || size < MIN_BOARD_SIZE || size > MAX_BOARD_SIZE) {
+      return { error: `Board size must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}` };
+    }
+  }
+  if (!WIN_LENGTHS.includes(settings.winLength)) {
+    return { error: `Win length must be one of ${WIN_LENGTHS.join(", ")}` };
+  }
+  if (!OPENING_RULES.includes(settings.opening)) {
+    return { error: "Unknown opening rule" };
+  }
+  if (settings.renju && settings.winLength !== 5) {
+    return { error: "Renju rules require a win length of 5" };
+  }
+  if (settings.renju && settings.infinite) {
+    return { error: "Renju rules need a fixed-size board" };
+  }
+
+  if (settings.takebacks !== null &&
+    (!Number.isInteger(settings.takebacks) || settings.takebacks < 0 || settings.takebacks > MAX_TAKEBACKS)) {
+    return { error: `Takebacks must be between 0 and ${MAX_TAKEBACKS}` };
+  }
 
-  for (const { dr, dc } of directions) {
-    let count = 1;
-    const points = [{ row, col }];
+  if (settings.seriesLength !== null &&
+    (!Number.isInteger(settings.seriesLength) || settings.seriesLength < 1 || settings.seriesLength > MAX_SERIES_LENGTH)) {
+    return { error: `A match must be between 1 and ${MAX_SERIES_LENGTH} games` };
+  }
 
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < BOARD_HEIGHT && c >= 0 && c < BOARD_WIDTH && board[r][c] === marker) {
-      points.push({ row: r, col: c });
-      count++; r += dr; c += dc;
+  const tc = settings.timeControl;
+  if (tc) {
+    const inRange = (value: number, max: number) => Number.isInteger(value) && value >= 0 && value <= max;
+    if (!inRange(tc.baseMs, MAX_BASE_MS) || !inRange(tc.incrementMs, MAX_INCREMENT_MS) || !inRange(tc.moveMs, MAX_MOVE_MS)) {
+      return { error: "Time control out of range" };
     }
-
-    r = row - dr; c = col - dc;
-    while (r >= 0 && r < BOARD_HEIGHT && c >= 0 && c < BOARD_WIDTH && board[r][c] === marker) {
-      points.push({ row: r, col: c });
-      count++; r -= dr; c -= dc;
+    if (tc.incrementMs > 0 && tc.moveMs > 0) {
+      return { error: "Choose either an increment or a time per move, not both" };
     }
+    if (tc.baseMs === 0 && tc.moveMs === 0) {
+      return { error: "Time control needs a total time or a time per move" };
+    }
+    if (tc.baseMs === 0 && tc.incrementMs > 0) {
+      return { error: "An increment needs a total time" };
+    }
+  }
+
+  return { settings };
+}
+
+// Points X may not play on its next move (only under Renju rules, and only while it is X's turn)
+function forbiddenPoints(room: Room) {
+  if (!room.settings.renju || room.result || room.opening || room.turnNumber % 2 !== 1) return [];
+  return findForbiddenPoints(toGrid(room.stones, room.settings));
+}
+
+// --- Clock ---
+function sideToMove(room: Room): PlayerRole {
+  return room.turnNumber % 2 === 1 ? "X" : "O";
+}
+
+// The seat whose clock runs: whoever has to act in the opening, then the side to move
+function clockSide(room: Room): PlayerRole {
+  return room.opening ? openingSide(room) : sideToMove(room);
+}
+
+// Milliseconds until this side flags, counting the time ticking right now
+function timeLeft(room: Room, role: PlayerRole): number {
+  const tc = room.settings.timeControl;
+  if (!tc || !room.clock) return Infinity;
+  return clockTimeLeft(room.clock, tc, role, clockSide(room));
+}
 
-    if (count >= WIN_LENGTH) return { winner: marker, line: points };
+// Clock state sent to clients; they count down the running side locally
+function clockPayload(room: Room) {
+  if (!room.clock) return null;
+  return {
+    timeLeft: { X: timeLeft(room, "X"), O: timeLeft(room, "O") },
+    running: room.clock.running,
+  };
+}
+
+// Charge the running side for the time used and stop ticking
+function stopClock(roomId: string) {
+  clearTimeout(clockTimers[roomId]);
+  delete clockTimers[roomId];
+
+  const clock = rooms[roomId]?.clock;
+  if (clock) pauseClock(clock);
+}
+
+// Runs during the opening and normal play, with both seats taken and the side to act connected
+function startClock(roomId: string) {
+  const room = rooms[roomId];
+  const clock = room?.clock;
+  if (!clock || clock.running || room.result) return;
+
+  const role = clockSide(room);
+  const moverId = room.roleMap[role];
+  const otherId = room.roleMap[role === "X" ? "O" : "X"];
+  if (!moverId || !otherId || !room.sockets[moverId]) return;
+
+  runClock(clock, role);
+  clockTimers[roomId] = setTimeout(() => flagFall(roomId), timeLeft(room, role));
+}
+
+// Re-evaluate whether the clock should run and tell the room
+function refreshClock(roomId: string) {
+  const room = rooms[roomId];
+  if (!room?.clock) return;
+  stopClock(roomId);
+  startClock(roomId);
+  io.in(roomId).emit("clock-updated", { clock: clockPayload(room) });
+}
+
+// The side to move ran out of time
+function flagFall(roomId: string) {
+  const room = rooms[roomId];
+  if (!room || room.result) return;
+  finishGame(roomId, { winner: opponentOf(clockSide(room)), reason: "timeout" });
+}
+
+// Charges the side that just acted and credits its increment.
+// Returns false, after ending the game, when that side had already run out of time.
+function chargeMove(roomId: string, role: PlayerRole): boolean {
+  const room = rooms[roomId];
+  const tc = room.settings.timeControl;
+  if (!room.clock || !tc) return true;
+
+  stopClock(roomId);
+  if (timeLeft(room, role) <= 0) {
+    finishGame(roomId, { winner: opponentOf(role), reason: "timeout" });
+    return false;
   }
+  completeMove(room.clock, tc, role);
+  return true;
+}
 
-  return null;
+// --- Game end ---
+function opponentOf(role: PlayerRole): PlayerRole {
+  return role === "X" ? "O" : "X";
+}
+
+// Records the result, credits the winner and tells the room.
+// `final` describes the move that ended the game, if one did.
+function finishGame(
+  roomId: string,
+  result: GameResult,
+  final: Partial<Move> & { line?: { row: number; col: number }[] } = {}
+) {
+  const room = rooms[roomId];
+  stopClock(roomId);
+  room.result = result;
+  room.winningLine = final.line;
+  room.pendingTakeback = null;
+  room.pendingDraw = null;
+
+  // Find the clientId of the winner and increment their score
+  const winnerClientId = result.winner ? room.roleMap[result.winner] : null;
+  if (winnerClientId) {
+    if (room.scores[winnerClientId] == null) room.scores[winnerClientId] = 0;
+    room.scores[winnerClientId] += 1;
+  }
+  scoreSeries(room, winnerClientId);
+  const rated = isRatedGame(room);
+  if (rated) rateGame(gamePlayers(room), result);
+
+  io.in(roomId).emit("game-over", {
+    ...final, line: final.line ?? [], turnNumber: room.turnNumber,
+    winner: result.winner, reason: result.reason, scores: byPublicId(room.scores),
+    clock: clockPayload(room), series: seriesPayload(room), ratings: ratingsPayload(room)
+  });
+
+  recordGame(roomId, rated);
+  scheduleSave();
+}
+
+// --- Match series ---
+function newSeries(settings: RoomSettings): SeriesState | null {
+  return settings.seriesLength ? { game: 1, wins: {}, draws: 0, over: false, winner: null } : null;
+}
+
+// Counts a finished game; the series is decided once a player has won a majority
+// of its games, or after the last game (a tie on wins is a drawn series)
+function scoreSeries(room: Room, winnerId: string | null) {
+  const series = room.series;
+  const length = room.settings.seriesLength;
+  if (!series || !length || series.over) return;
+
+  if (winnerId) series.wins[winnerId] = (series.wins[winnerId] ?? 0) + 1;
+  else series.draws += 1;
+
+  const [a, b] = Object.keys(room.players).map((id) => ({ id, wins: series.wins[id] ?? 0 }));
+  const leader = !b || a.wins > b.wins ? a : b.wins > a.wins ? b : null;
+  if (leader && leader.wins > length / 2) {
+    series.over = true;
+    series.winner = leader.id;
+  } else if (series.game >= length) {
+    series.over = true;
+    series.winner = leader?.id ?? null;
+  }
+}
+
+// Called before resetting a finished game: the players swap colours so the
+// first move alternates, and a decided series makes way for a new one
+function advanceSeries(room: Room) {
+  if (!room.series) return;
+  room.series = room.series.over ? newSeries(room.settings) : { ...room.series, game: room.series.game + 1 };
+
+  const { X, O } = room.roleMap;
+  room.roleMap = { X: O, O: X };
+  if (X) room.players[X] = "O";
+  if (O) room.players[O] = "X";
+}
+
+function seriesPayload(room: Room): SeriesState | null {
+  if (!room.series) return null;
+  const { winner } = room.series;
+  return { ...room.series, wins: byPublicId(room.series.wins), winner: winner && publicId(winner) };
+}
+
+// --- Ratings ---
+// Only games between two different players in a rated room change ratings
+function isRatedGame(room: Room) {
+  const { X, O } = room.roleMap;
+  return room.settings.rated && !!X && !!O && X !== O;
+}
+
+function gamePlayers(room: Room): Record<PlayerRole, { clientId: string; name: string }> {
+  const player = (role: PlayerRole) => ({ clientId: room.roleMap[role] ?? "", name: room.names[room.roleMap[role]] ?? "" });
+  return { X: player("X"), O: player("O") };
+}
+
+// public id -> current rating for everyone seated in the room
+function ratingsPayload(room: Room) {
+  return Object.fromEntries(Object.keys(room.players).map((id) => [publicId(id), ratingOf(id)]));
+}
+
+// --- Persistence ---
+function recordGame(roomId: string, rated: boolean) {
+  const room = rooms[roomId];
+  if (!room.result) return;
+
+  const record: GameRecord = {
+    id: randomUUID(),
+    roomId,
+    finishedAt: Date.now(),
+    settings: room.settings,
+    players: gamePlayers(room),
+    moves: room.moves,
+    result: room.result,
+    rated,
+  };
+  saveGame(record);
+}
+
+// Rooms are saved without live connections, pending requests or a running clock:
+// time already used is charged and the clock resumes when the mover reconnects.
+function snapshotRoom(room: Room): Room {
+  const clock = room.clock && { ...room.clock, remaining: { ...room.clock.remaining } };
+  if (clock) pauseClock(clock);
+
+  return { ...room, sockets: {}, spectators: {}, pendingTakeback: null, pendingDraw: null, pendingNewGame: null, pendingSwitch: null, clock };
+}
+
+function saveRooms() {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = null;
+
+  const snapshot: Record<string, Room> = {};
+  for (const roomId in rooms) snapshot[roomId] = snapshotRoom(rooms[roomId]);
+  try {
+    saveJson("rooms", snapshot);
+  } catch (err) {
+    console.error("Could not save rooms:", err);
+  }
+}
+
+// Batches bursts of changes into a single write
+function scheduleSave() {
+  if (!saveTimer) saveTimer = setTimeout(saveRooms, SAVE_DELAY_MS);
+}
+
+function restoreRooms() {
+  Object.assign(rooms, loadJson<Record<string, Room>>("rooms", {}));
+  for (const room of Object.values(rooms)) {
+    room.spectators = {};
+    room.spectatorMessages ??= [];
+    room.settings.isPublic ??= false;
+    room.settings.seriesLength ??= null;
+    room.settings.rated ??= false;
+    room.settings.infinite ??= false;
+    // Rooms saved before stones were stored sparsely still carry the dense board
+    room.stones ??= stonesFromMoves(room.moves);
+    delete (room as Room & { board?: unknown }).board;
+    room.series ??= newSeries(room.settings);
+    room.pendingNewGame ??= null;
+    room.pendingSwitch ??= null;
+    room.password ??= null;
+    room.locked ??= false;
+    room.banned ??= [];
+    room.admitted ??= Object.keys(room.players);
+    room.lastActivity = Date.now();         // give everyone the full TTL to come back after a restart
+  }
+  const count = Object.keys(rooms).length;
+  if (count) console.log(`Restored ${count} room(s)`);
+}
+
+// --- Public identities ---
+// Client ids work as credentials, so payloads identify players by their public id instead
+function byPublicId<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([id, value]) => [publicId(id), value]));
+}
+
+function publicRoleMap(roleMap: Record<PlayerRole, string>): Record<PlayerRole, string> {
+  return {
+    X: roleMap.X ? publicId(roleMap.X) : "",
+    O: roleMap.O ? publicId(roleMap.O) : "",
+  };
+}
+
+function publicMessage(message: ChatMessage): ChatMessage {
+  return { sender: publicId(message.sender), text: message.text };
+}
+
+// State sent to clients on sync-state
+function syncStatePayload(roomId: string) {
+  const room = rooms[roomId];
+  return {
+    stones: room.stones,
+    turnNumber: room.turnNumber,
+    result: room.result,
+    line: room.winningLine,
+    moves: room.moves,
+    names: byPublicId(room.names),
+    scores: byPublicId(room.scores),
+    roleMap: publicRoleMap(room.roleMap),
+    messages: room.messages.map(publicMessage),
+    settings: room.settings,
+    opening: room.opening,
+    takebacksUsed: byPublicId(room.takebacksUsed),
+    clock: clockPayload(room),
+    forbidden: forbiddenPoints(room),
+    spectatorCount: Object.keys(room.spectators).length,
+    spectatorMessages: room.spectatorMessages,
+    series: seriesPayload(room),
+    graceMs: graceRemaining(roomId),
+    locked: room.locked,
+    hasPassword: !!room.password,
+    ratings: ratingsPayload(room),
+  };
+}
+
+// Everyone in the room sees how many people are watching
+function spectatorsChanged(roomId: string) {
+  const room = rooms[roomId];
+  if (!room) return;
+  io.in(roomId).emit("spectators-updated", { count: Object.keys(room.spectators).length });
+}
+
+// --- Lobby ---
+// Index of public rooms with a connected player waiting for an opponent.
+// Sockets in LOBBY_CHANNEL get every change pushed; room ids never contain ":".
+const LOBBY_CHANNEL = "lobby:";
+const lobby: Record<string, LobbyRoom> = {};
+
+function lobbyEntry(roomId: string): LobbyRoom | null {
+  const room = rooms[roomId];
+  if (!room || !room.settings.isPublic || room.locked) return null;
+
+  const waiting = Object.keys(room.players);
+  if (waiting.length !== 1 || !room.sockets[waiting[0]]) return null;
+
+  return {
+    roomId,
+    hostName: room.names[waiting[0]] ?? "",
+    hostRole: room.players[waiting[0]],
+    settings: room.settings,
+    hasPassword: !!room.password,
+    listedAt: lobby[roomId]?.listedAt ?? Date.now(),
+  };
+}
+
+// Call after anything that may fill, empty, rename or delete a room
+function updateLobby(roomId: string) {
+  const entry = lobbyEntry(roomId);
+  const listed = lobby[roomId];
+
+  if (!entry) {
+    if (!listed) return;
+    delete lobby[roomId];
+    io.to(LOBBY_CHANNEL).emit("lobby-room-removed", { roomId });
+    return;
+  }
+  if (listed && JSON.stringify(listed) === JSON.stringify(entry)) return;
+
+  lobby[roomId] = entry;
+  io.to(LOBBY_CHANNEL).emit("lobby-room-updated", entry);
+}
+
+// --- Matchmaking ---
+// Players waiting for an automatic opponent, oldest first (Map keeps insertion order)
+interface QueuedPlayer {
+  clientId: string;
+  socketId: string;
+}
+
+const matchQueue = new Map<string, QueuedPlayer>(); // clientId -> entry
+
+// The waiting player with the closest rating; on a tie, whoever has waited longest
+function pickOpponent(player: QueuedPlayer): QueuedPlayer | undefined {
+  const rating = ratingOf(player.clientId);
+  let best: QueuedPlayer | undefined;
+  let bestGap = Infinity;
+  for (const waiting of matchQueue.values()) {
+    if (waiting.clientId === player.clientId) continue;
+    const gap = Math.abs(ratingOf(waiting.clientId) - rating);
+    if (gap < bestGap) {
+      best = waiting;
+      bestGap = gap;
+    }
+  }
+  return best;
+}
+
+// Seats both players in a new rated room with default settings; colours are random and X hosts
+function startMatch(a: QueuedPlayer, b: QueuedPlayer) {
+  matchQueue.delete(a.clientId);
+  matchQueue.delete(b.clientId);
+
+  const [x, o] = Math.random() < 0.5 ? [a, b] : [b, a];
+  const roomId = createRoom({ ...DEFAULT_SETTINGS, rated: true }, x.clientId, x.socketId);
+  const room = rooms[roomId];
+  room.players[o.clientId] = "O";
+  room.roleMap.O = o.clientId;
+  room.sockets[o.clientId] = o.socketId;
+  room.names[o.clientId] = "";
+  room.admitted.push(o.clientId);
+  room.scores = { [x.clientId]: 0, [o.clientId]: 0 };
+
+  for (const player of [x, o]) {
+    io.sockets.sockets.get(player.socketId)?.join(roomId);
+    io.to(player.socketId).emit("match-found", {
+      roomId,
+      role: room.players[player.clientId],
+      isHost: player === x,
+      publicId: publicId(player.clientId),
+    });
+  }
+  startClock(roomId);
+  scheduleSave();
 }
 
 // Intentional Disconnecting
-function leaveRoomIntentional(roomId: string, clientId: string, socket: any) {
+function leaveRoomIntentional(roomId: string, clientId: string, socket: Socket) {
   const room = rooms[roomId];
   if (!room) return;
 
   const role = room.players[clientId];
   if (!role) return;
 
+  // Walking out of a game in progress loses it, so leaving can't dodge a rated loss
+  if (!room.result && room.moves.length > 0) finishGame(roomId, { winner: opponentOf(role), reason: "abandoned" });
+
   delete room.players[clientId];
   delete room.roleMap[role];
   delete room.sockets[clientId];
@@ -101,89 +614,369 @@ function leaveRoomIntentional(roomId: string, clientId: string, socket: any) {
       }
     } else {
       delete rooms[roomId];
+      cancelGrace(roomId);
     }
   } else if (room.hostId && room.sockets[room.hostId]) {
     io.to(room.sockets[room.hostId]).emit("opponent-left");
   }
   io.to(room.sockets[room.hostId]).emit("opponent-intentionally-left");
   socket.emit("room-left-intentional");
+  updateLobby(roomId);
 }
 
+// Removes a player and frees their seat for someone else. The series keeps its last score
+// (a forfeit just counted stays visible) until a new opponent sits down.
+function releaseSeat(roomId: string, clientId: string) {
+  const room = rooms[roomId];
+  cancelGrace(roomId, clientId);
+
+  delete room.players[clientId];
+  delete room.sockets[clientId];
+  delete room.names[clientId];
+  delete room.scores[clientId];
+  for (const role of ["X", "O"] as PlayerRole[]) {
+    if (room.roleMap[role] === clientId) {
+      delete room.roleMap[role];
+    }
+  }
+  refreshClock(roomId);
+  updateLobby(roomId);
+}
+
+// --- Reconnect grace period ---
+// A disconnected player keeps their seat for RECONNECT_GRACE_MS. If they are not back by then
+// they forfeit a game in progress and lose the seat, so the room can take a new opponent.
+function startGrace(roomId: string, clientId: string) {
+  cancelGrace(roomId);
+  graceTimers[roomId] = {
+    clientId,
+    deadline: Date.now() + RECONNECT_GRACE_MS,
+    timer: setTimeout(() => graceExpired(roomId, clientId), RECONNECT_GRACE_MS),
+  };
+
+  const room = rooms[roomId];
+  const otherId = Object.keys(room.players).find((id) => id !== clientId);
+  if (otherId && room.sockets[otherId]) {
+    io.to(room.sockets[otherId]).emit("opponent-disconnected", { graceMs: RECONNECT_GRACE_MS });
+  }
+}
+
+// Stops the timer (for one player only, when clientId is given)
+function cancelGrace(roomId: string, clientId?: string) {
+  const grace = graceTimers[roomId];
+  if (!grace || (clientId && grace.clientId !== clientId)) return;
+  clearTimeout(grace.timer);
+  delete graceTimers[roomId];
+}
+
+function graceRemaining(roomId: string) {
+  const grace = graceTimers[roomId];
+  return grace ? Math.max(0, grace.deadline - Date.now()) : null;
+}
+
+function graceExpired(roomId: string, clientId: string) {
+  delete graceTimers[roomId];
+  const room = rooms[roomId];
+  const role = room?.players[clientId];
+  if (!role || room.sockets[clientId]) return;
+
+  const forfeited = !room.result && room.moves.length > 0;
+  if (forfeited) finishGame(roomId, { winner: opponentOf(role), reason: "abandoned" });
+
+  releaseSeat(roomId, clientId);
+  if (Object.keys(room.players).length === 0) {
+    delete rooms[roomId];
+    updateLobby(roomId);
+    return;
+  }
+  io.in(roomId).emit("opponent-timed-out", { forfeited });
+  io.in(roomId).emit("sync-state", syncStatePayload(roomId));
+  scheduleSave();
+}
+
+// --- Idle room expiry ---
+// A sweeper closes rooms nobody has touched for a while. Which TTL applies depends on the room:
+// nobody connected, one player waiting for an opponent, or a finished game nobody restarted.
+// Games in progress only expire once both players are gone; until then the clock and the reconnect grace period handle them.
+interface RoomTtls {
+  empty: number;
+  waiting: number;
+  finished: number;
+  warningMs: number;                        // how long before closing the room's clients are warned
+  sweepMs: number;
+}
+
+const DEFAULT_ROOM_TTLS: RoomTtls = {
+  empty: 10 * 60 * 1000,
+  waiting: 30 * 60 * 1000,
+  finished: 20 * 60 * 1000,
+  warningMs: 60 * 1000,
+  sweepMs: 15 * 1000,
+};
+
+// ROOM_TTLS may hold a JSON object overriding any of the defaults, e.g. {"waiting":600000}
+function loadRoomTtls(): RoomTtls {
+  if (!process.env.ROOM_TTLS) return DEFAULT_ROOM_TTLS;
+  try {
+    return { ...DEFAULT_ROOM_TTLS, ...(JSON.parse(process.env.ROOM_TTLS) as Partial<RoomTtls>) };
+  } catch (err) {
+    console.error("Ignoring invalid ROOM_TTLS:", err);
+    return DEFAULT_ROOM_TTLS;
+  }
+}
+
+const roomTtls = loadRoomTtls();
+const expiryWarned = new Set<string>();      // roomIds already warned since their last activity
+
+function touchRoom(roomId: string) {
+  const room = rooms[roomId];
+  if (!room) return;
+  room.lastActivity = Date.now();
+  expiryWarned.delete(roomId);
+}
+
+function roomTtl(room: Room): number | null {
+  if (Object.keys(room.sockets).length === 0) return roomTtls.empty;
+  if (room.result) return roomTtls.finished;
+  if (Object.keys(room.players).length < 2) return roomTtls.waiting;
+  return null;
+}
+
+function expireRoom(roomId: string) {
+  io.in(roomId).emit("room-expired");
+  io.in(roomId).socketsLeave(roomId);
+  cancelGrace(roomId);
+  stopClock(roomId);
+  delete rooms[roomId];
+  expiryWarned.delete(roomId);
+  updateLobby(roomId);
+}
+
+function sweepRooms() {
+  const now = Date.now();
+  let expired = 0;
+
+  for (const roomId in rooms) {
+    const ttl = roomTtl(rooms[roomId]);
+    if (ttl === null) continue;
+
+    const remaining = rooms[roomId].lastActivity + ttl - now;
+    if (remaining <= 0) {
+      expireRoom(roomId);
+      expired++;
+    } else if (remaining <= roomTtls.warningMs && !expiryWarned.has(roomId)) {
+      expiryWarned.add(roomId);
+      io.in(roomId).emit("room-expiring", { expiresInMs: remaining });
+    }
+  }
+
+  if (expired) {
+    console.log(`Closed ${expired} idle room(s)`);
+    scheduleSave();
+  }
+}
+
+setInterval(sweepRooms, roomTtls.sweepMs).unref();
+
 function resetGame(roomId: string){
-  rooms[roomId].board = Array.from({ length: BOARD_HEIGHT }, () =>
-    Array(BOARD_WIDTH).fill(null)
-  );
+  rooms[roomId].stones = {};
   rooms[roomId].turnNumber = 1;
-  rooms[roomId].winner = null;
+  rooms[roomId].result = null;
   rooms[roomId].winningLine = undefined;
+  rooms[roomId].moves = [];
+  rooms[roomId].openingMoves = 0;
+  rooms[roomId].takebacksUsed = {};
+  rooms[roomId].pendingTakeback = null;
+  rooms[roomId].pendingDraw = null;
+  rooms[roomId].pendingNewGame = null;
+  rooms[roomId].pendingSwitch = null;
+  rooms[roomId].opening = initialOpening(rooms[roomId].settings);
+  stopClock(roomId);
+  rooms[roomId].clock = createClock(rooms[roomId].settings.timeControl);
+  refreshClock(roomId);
+}
+
+// A new room with the host seated as X and the other seat empty
+function createRoom(settings: RoomSettings, hostId: string, socketId: string) {
+  let id;
+  do { id = generateRoomId(); } while (rooms[id]);
+
+  rooms[id] = {
+    players: { [hostId]: "X" },            // host role assigned immediately
+    roleMap: { X: hostId, O: "" },         // X is host
+    sockets: { [hostId]: socketId },
+    names: { [hostId]: "" },               // name empty initially
+    scores: {},                           // score not set yet
+    hostId,
+    settings,
+    stones: {},
+    turnNumber: 1,
+    result: null,
+    moves: [],
+    openingMoves: 0,
+    takebacksUsed: {},
+    pendingTakeback: null,
+    pendingDraw: null,
+    pendingNewGame: null,
+    pendingSwitch: null,
+    opening: initialOpening(settings),
+    clock: createClock(settings.timeControl),
+    messages: [],
+    spectators: {},
+    spectatorMessages: [],
+    series: newSeries(settings),
+    password: null,
+    locked: false,
+    banned: [],
+    admitted: [hostId],
+    lastActivity: Date.now(),
+  };
+  return id;
+}
+
+// --- Opening ---
+function initialOpening(settings: RoomSettings): OpeningStage | null {
+  return settings.opening === "none" ? null : "place-three";
+}
+
+// Until colours are settled, the current X seat is the "first player" of the opening
+function openingSide(room: Room): PlayerRole {
+  const firstPlayerActs = room.opening === "place-three" || room.opening === "final-choose";
+  return firstPlayerActs ? "X" : "O";
+}
+
+function openingActor(room: Room): string | undefined {
+  if (!room.opening) return undefined;
+  return room.roleMap[openingSide(room)];
 }
 
 app.get("/ping", (req, res) => {
   res.send("pong");
 });
 
+app.use("/api", api);
+
+// --- Sessions ---
+// Sockets authenticate with a signed token; anyone without a valid one gets a fresh identity
+io.use((socket, next) => {
+  const token = socket.handshake.auth?.token;
+  const clientId = verifyToken(token);
+  socket.data.session = clientId ? { clientId, token } : issueSession();
+  next();
+});
+
+// --- Rate limiting ---
+// Behind a reverse proxy set TRUST_PROXY so the client's own address is used instead of the proxy's
+function clientAddress(socket: Socket) {
+  const forwarded = socket.handshake.headers["x-forwarded-for"];
+  if (process.env.TRUST_PROXY && typeof forwarded === "string") return forwarded.split(",")[0].trim();
+  return socket.handshake.address;
+}
+
+function limitKeys(socket: Socket) {
+  return [clientKey(socket.data.session.clientId), ipKey(clientAddress(socket))];
+}
+
+function limitError(retryAfterMs: number) {
+  return Object.assign(new Error("Too many requests, try again later"), { data: { retryAfterMs } });
+}
+
+// Banned clients cannot reconnect, and each address may only open so many connections
+io.use((socket, next) => {
+  const banned = banRemaining(limitKeys(socket));
+  if (banned) return next(limitError(banned));
+  if (!allow("connect", [ipKey(clientAddress(socket))])) return next(limitError(0));
+  next();
+});
+
+// Disconnects every socket of a banned client or address
+function enforceBans() {
+  for (const socket of io.sockets.sockets.values()) {
+    const retryAfterMs = banRemaining(limitKeys(socket));
+    if (!retryAfterMs) continue;
+    socket.emit("banned", { retryAfterMs });
+    socket.disconnect(true);
+  }
+}
+
 io.on("connection", (socket) => {
-  const clientId = socket.handshake.query.clientId as string;
-  console.log("Connected:", clientId);
+  const { clientId, token } = socket.data.session as { clientId: string; token: string };
+  console.log("Connected:", publicId(clientId));
+
+  // Every event draws from this client's and this address's bucket for that event.
+  // Limited requests get an error ack; too many of them in a row earn a temporary ban.
+  socket.use(([event, ...args], next) => {
+    const keys = limitKeys(socket);
+    if (allow(event, keys)) {
+      noteActivity(args[0]);
+      return next();
+    }
+
+    const ack = args[args.length - 1];
+    if (typeof ack === "function") ack({ success: false, message: "Too many requests, slow down" });
+    if (!banRemaining(keys) && strike(keys)) {
+      console.log("Banned for flooding:", publicId(clientId));
+      enforceBans();
+    }
+  });
+
+  // The client keeps the token and sends it on every reconnect
+  socket.emit("session", { token, publicId: publicId(clientId) });
+
+  // Any event let through may change a room, so save shortly after. Only the sender's own room
+  // is kept from expiring; naming somebody else's room does nothing for it.
+  function noteActivity(payload: unknown) {
+    scheduleSave();
+    const roomId = (payload as { roomId?: unknown } | null)?.roomId;
+    if (typeof roomId !== "string") return;
+    const room = rooms[roomId];
+    if (room && (room.players[clientId] || room.spectators[clientId])) touchRoom(roomId);
+  }
 
   /// --- Request a new empty roomId ---
 // --- Reserve roomId first ---
-socket.on("requestRoom", (ack) => {
-  let id;
-  do { id = generateRoomId(); } while (rooms[id]);
-
-  rooms[id] = {
-    players: { [clientId]: "X" },          // host role assigned immediately
-    roleMap: { X: clientId, O: "" },       // X is host
-    sockets: { [clientId]: socket.id },
-    names: { [clientId]: "" },             // name empty initially
-    scores: {},                           // score not set yet
-    hostId: clientId,
-    board: Array.from({ length: BOARD_HEIGHT }, () =>
-      Array(BOARD_WIDTH).fill(null)
-    ),
-    turnNumber: 1,
-    winner: null,
-    messages: []
-  };
+socket.on("requestRoom", validated("requestRoom", ({ password, ...options }, ack) => {
+  const { settings, error } = parseSettings(options);
+  if (!settings) return ack({ success: false, message: error ?? "Invalid settings" });
 
+  const id = createRoom(settings, clientId, socket.id);
+  if (password) rooms[id].password = hashPassword(password);
   socket.join(id);
 
   // Return the roomId to the frontend
-  ack({ success: true, roomId: id, role: "X", clientId });
+  ack({ success: true, roomId: id, role: "X", publicId: publicId(clientId) });
+  updateLobby(id);
 
   // Wait for the host to emit "get-name" to set their name
-});
+}));
 
 
 // --- Get name and broadcast ---
 socket.on(
   "get-name",
-  ({ roomId, name }: { roomId: string; name: string }, ack) => {
+  validated("get-name", ({ roomId, name }, ack) => {
     const room = rooms[roomId];
     if (!room) return ack({ success: false, message: "Room not found" });
 
+    // Spectator names only label their chat messages
+    if (room.spectators[clientId]) {
+      room.spectators[clientId].name = name;
+      return ack({ success: true });
+    }
+
     // Update host name
     room.names[clientId] = name;
 
     ack({ success: true });
+    updateLobby(roomId);
 
     // Send initial sync-state with role, names, and scores
-    io.in(roomId).emit("sync-state", {
-      board: room.board,
-      turnNumber: room.turnNumber,
-      winner: room.winner,
-      line: room.winningLine,
-      names: room.names,
-      scores: room.scores,
-      roleMap: room.roleMap,
-      messages: room.messages
-    });
-  }
+    io.in(roomId).emit("sync-state", syncStatePayload(roomId));
+  })
 );
 
 // --- Sync Request ---
-socket.on("sync-request", ({ roomId }: { roomId: string }, ack) => {
+socket.on("sync-request", validated("sync-request", ({ roomId }, ack) => {
   const room = rooms[roomId];
   if (!room) {
     if (ack) ack({ success: false, message: "Room not found" });
@@ -191,34 +984,45 @@ socket.on("sync-request", ({ roomId }: { roomId: string }, ack) => {
   }
 
   // Send state to all clients in the room
-  io.in(roomId).emit("sync-state", {
-    board: room.board,
-    turnNumber: room.turnNumber,
-    winner: room.winner,
-    line: room.winningLine,
-    names: room.names,
-    scores: room.scores,
-    roleMap: room.roleMap,
-    messages: room.messages,
-  });
+  io.in(roomId).emit("sync-state", syncStatePayload(roomId));
 
   if (ack) ack({ success: true });
-});
+}));
 
   // --- Join a room ---
-  socket.on("join-room", ({ roomId }: { roomId: string }, ack) => {
+  socket.on("join-room", validated("join-room", ({ roomId, password }, ack) => {
   const room = rooms[roomId];
   if (!room) return ack({ success: false, message: "Room not found" });
 
-  // Track socket.id
-  room.sockets[clientId] = socket.id;
+  // Bans always apply; the lock and password only stop people who have not been let in before
+  if (room.banned.includes(clientId)) return ack({ success: false, message: "You are banned from this room" });
+  if (!room.admitted.includes(clientId)) {
+    if (room.locked) return ack({ success: false, message: "Room is locked" });
+    if (room.password && !checkPassword(password ?? "", room.password)) {
+      const message = password ? "Wrong password" : "This room needs a password";
+      return ack({ success: false, message, code: "password-required" });
+    }
+    room.admitted.push(clientId);
+  }
+  touchRoom(roomId);
 
-  // Deny if room full
+  // Room full: watch instead of play
   const currentPlayers = Object.keys(room.players).length;
   if (!room.players[clientId] && currentPlayers >= 2) {
-    return ack({ success: false, message: "Room is full" });
+    const name = room.spectators[clientId]?.name ?? "";
+    room.spectators[clientId] = { socketId: socket.id, name };
+    socket.join(roomId);
+
+    ack({ success: true, roomId, role: null, spectator: true, nameSet: !!name, publicId: publicId(clientId) });
+    spectatorsChanged(roomId);
+    socket.emit("sync-state", syncStatePayload(roomId));
+    return;
   }
 
+  // Track socket.id
+  room.sockets[clientId] = socket.id;
+  cancelGrace(roomId, clientId);
+
   // Assign role (reconnect or first vacant)
   let assignedRole: PlayerRole | null = null;
   for (const role of ["X", "O"] as PlayerRole[]) {
@@ -229,6 +1033,8 @@ socket.on("sync-request", ({ roomId }: { roomId: string }, ack) => {
   }
   if (!assignedRole) {
     assignedRole = !room.roleMap["X"] ? "X" : "O";
+    // Taking a free seat starts a new series against whoever is already here
+    room.series = newSeries(room.settings);
   }
   room.players[clientId] = assignedRole;
   room.roleMap[assignedRole] = clientId;
@@ -250,33 +1056,36 @@ socket.on("sync-request", ({ roomId }: { roomId: string }, ack) => {
   socket.join(roomId);
 
   // Ack the join immediately (role assigned)
-  ack({ success: true, roomId, role: assignedRole, nameSet, clientId});
+  ack({ success: true, roomId, role: assignedRole, nameSet, publicId: publicId(clientId) });
 
   // Notify room that player joined
   io.in(roomId).emit("player-joined");
+  updateLobby(roomId);
+
+  // After a restart the opponent may never have come back; hold their seat for the usual grace period
+  const absentId = Object.keys(room.players).find((id) => id !== clientId && !room.sockets[id]);
+  if (absentId && !graceTimers[roomId]) startGrace(roomId, absentId);
 
   //console.log(room.roleMap)
 
-  // Send initial state to client
-  io.in(roomId).emit("sync-state", {
-    board: room.board,
-    turnNumber: room.turnNumber,
-    winner: room.winner,
-    line: room.winningLine,
-    names: room.names,   // may include nulls
-    scores: room.scores, // both scores initialized if first join
-    roleMap: room.roleMap,
-    messages: room.messages
-  });
-});
+  // Start or resume the clock now that this seat is connected
+  stopClock(roomId);
+  startClock(roomId);
+
+  // Send initial state to client (names may include nulls, scores initialized on first join)
+  io.in(roomId).emit("sync-state", syncStatePayload(roomId));
+}));
 
 
 
   // --- Make move ---
-  socket.on("make-move", ({ roomId, row, col, role }, ack) => {
+  socket.on("make-move", validated("make-move", ({ roomId, row, col, role }, ack) => {
   const room = rooms[roomId];
   if (!room) return ack({ success: false, message: "Room not found" });
-  if (room.winner) return ack({ success: false, message: "Game already won" });
+  if (room.result) return ack({ success: false, message: "Game already over" });
+  if (room.opening) return ack({ success: false, message: "Opening in progress" });
+  if (!onBoard(room.settings, row, col))
+    return ack({ success: false, message: "Move is off the board" });
 
   // Validate role
   if (room.players[clientId] !== role) 
@@ -288,99 +1097,329 @@ socket.on("sync-request", ({ roomId }: { roomId: string }, ack) => {
     return ack({ success: false, message: "Not your turn" });
 
   // Validate empty cell
-  if (room.board[row][col] !== null) 
+  if (stoneAt(room.stones, row, col) !== null) 
     return ack({ success: false, message: "Cell occupied" });
 
-  // Make the move
-  room.board[row][col] = role;
+  // Validate Renju restrictions for X
+  if (room.settings.renju && role === "X") {
+    const reason = forbiddenReason(toGrid(room.stones, room.settings), row, col);
+    if (reason) return ack({ success: false, message: `Forbidden move for X: ${reason}` });
+  }
+
+  // Charge the mover's clock; a move after the flag fell loses on time
+  if (!chargeMove(roomId, role)) return ack({ success: false, message: "Time is up" });
+
+  // Make the move (pending takeback and draw offers are about the previous position)
+  room.stones[pointKey(row, col)] = role;
+  room.moves.push({ row, col, role });
   room.turnNumber++;
+  room.pendingTakeback = null;
+  room.pendingDraw = null;
 
-  // Check win
-  const winResult = checkWin(room.board, row, col);
+  // Check win, then a full board
+  const winResult = checkWin(room.stones, row, col, room.settings);
+  const boardFull = !room.settings.infinite && room.moves.length === room.settings.boardWidth * room.settings.boardHeight;
   if (winResult) {
-    room.winner = winResult.winner;
-    room.winningLine = winResult.line;
-    // Find the clientId of the winner
-    const winnerClientId = room.roleMap[winResult.winner];
-
-  // Increment winner's score
-  if (winnerClientId) {
-    if (room.scores[winnerClientId] == null) room.scores[winnerClientId] = 0;
-    room.scores[winnerClientId] += 1;
-  }
-    io.in(roomId).emit("game-over", {
-      row, col, role, turnNumber: room.turnNumber,
-      winner: winResult.winner, line: winResult.line, scores: room.scores
-    });
+    finishGame(roomId, { winner: winResult.winner, reason: "five" }, { row, col, role, line: winResult.line });
+  } else if (boardFull) {
+    finishGame(roomId, { winner: null, reason: "board-full" }, { row, col, role });
   } else {
+    startClock(roomId);
     io.in(roomId).emit("move-made", {
-      row, col, role, turnNumber: room.turnNumber
+      row, col, role, turnNumber: room.turnNumber, forbidden: forbiddenPoints(room),
+      clock: clockPayload(room)
     });
   }
 
-  console.log("Emitting move", { turnNumber: room.turnNumber, winner: winResult?.winner });
+  console.log("Emitting move", { turnNumber: room.turnNumber, result: room.result });
   ack({ success: true });
-});
+}));
+
+
+  // --- Opening: place a stone ---
+  // Stones alternate X, O, X (and O, X in Swap2) by turn number, whoever places them.
+socket.on("opening-place", validated("opening-place", ({ roomId, row, col }, ack) => {
+  const room = rooms[roomId];
+  if (!room) return ack({ success: false, message: "Room not found" });
+  if (room.result) return ack({ success: false, message: "Game already over" });
+  if (room.opening !== "place-three" && room.opening !== "place-two")
+    return ack({ success: false, message: "Not placing opening stones" });
+  if (openingActor(room) !== clientId)
+    return ack({ success: false, message: "Not your turn" });
+  if (!onBoard(room.settings, row, col))
+    return ack({ success: false, message: "Move is off the board" });
+  if (stoneAt(room.stones, row, col) !== null)
+    return ack({ success: false, message: "Cell occupied" });
+  if (!chargeMove(roomId, openingSide(room))) return ack({ success: false, message: "Time is up" });
 
+  const role: PlayerRole = room.turnNumber % 2 === 1 ? "X" : "O";
+  room.stones[pointKey(row, col)] = role;
+  room.moves.push({ row, col, role });
+  room.turnNumber++;
+
+  // Three stones end at turn 4, the extra two at turn 6
+  if (room.opening === "place-three" && room.turnNumber === 4) room.opening = "choose";
+  else if (room.opening === "place-two" && room.turnNumber === 6) room.opening = "final-choose";
+
+  io.in(roomId).emit("move-made", { row, col, role, turnNumber: room.turnNumber, forbidden: [] });
+  io.in(roomId).emit("opening-updated", { opening: room.opening });
+  refreshClock(roomId);
+  ack({ success: true });
+}));
+
+// --- Opening: choose a colour (or, in Swap2, place two more) ---
+socket.on(
+  "opening-choose",
+  validated("opening-choose", ({ roomId, choice }, ack) => {
+    const room = rooms[roomId];
+    if (!room) return ack({ success: false, message: "Room not found" });
+    if (room.result) return ack({ success: false, message: "Game already over" });
+    if (room.opening !== "choose" && room.opening !== "final-choose")
+      return ack({ success: false, message: "Not choosing colours" });
+    if (openingActor(room) !== clientId)
+      return ack({ success: false, message: "Not your turn" });
+
+    if (choice === "place-two") {
+      if (room.settings.opening !== "swap2" || room.opening !== "choose")
+        return ack({ success: false, message: "Placing two more is only allowed in Swap2" });
+      if (!chargeMove(roomId, openingSide(room))) return ack({ success: false, message: "Time is up" });
+      room.opening = "place-two";
+      io.in(roomId).emit("opening-updated", { opening: room.opening });
+      refreshClock(roomId);
+      return ack({ success: true });
+    }
+    if (choice !== "X" && choice !== "O")
+      return ack({ success: false, message: "Invalid choice" });
+
+    const otherId = Object.keys(room.players).find((id) => id !== clientId);
+    if (!otherId) return ack({ success: false, message: "No opponent" });
+    if (!chargeMove(roomId, openingSide(room))) return ack({ success: false, message: "Time is up" });
+
+    // Clock time belongs to the player, so it follows them if the choice swaps seats
+    if (room.clock && room.players[clientId] !== choice) {
+      const { X, O } = room.clock.remaining;
+      room.clock.remaining = { X: O, O: X };
+    }
+
+    // Assign roles from the choice
+    const otherRole: PlayerRole = choice === "X" ? "O" : "X";
+    room.players[clientId] = choice;
+    room.players[otherId] = otherRole;
+    room.roleMap[choice] = clientId;
+    room.roleMap[otherRole] = otherId;
+    room.opening = null;
+    room.openingMoves = room.moves.length;
+
+    for (const id of [clientId, otherId]) {
+      if (room.sockets[id]) {
+        io.to(room.sockets[id]).emit("opening-finished", {
+          newRole: room.players[id], roleMap: publicRoleMap(room.roleMap)
+        });
+      }
+    }
+    refreshClock(roomId);
+    io.in(roomId).emit("sync-state", syncStatePayload(roomId));
+    ack({ success: true });
+  })
+);
 
   // --- Propose new game ---
-socket.on("propose-new-game", ({ roomId }, ack) => {
+socket.on("propose-new-game", validated("propose-new-game", ({ roomId }, ack) => {
   const room = rooms[roomId];
   if (!room) return ack({ success: false, message: "Room not found" });
+  if (!room.players[clientId]) return ack({ success: false, message: "Not a player" });
+  if (!room.result && room.moves.length > 0) return ack({ success: false, message: "Game in progress" });
 
   // Identify opponent
   const opponentId = Object.keys(room.players).find((id) => id !== clientId) ?? null;
 
+  // A dropped opponent keeps their seat until the grace period runs out
+  if (opponentId && graceTimers[roomId]?.clientId === opponentId)
+    return ack({ success: false, message: "Opponent is reconnecting" });
+
   if (!opponentId || !room.sockets[opponentId]) {
     // --- Opponent missing: reset game state for proposer ---
     resetGame(roomId);
 
     // Notify proposer that opponent is gone
     io.to(room.sockets[clientId]).emit("opponent-intentionally-left");
+    ack({ success: false, message: "Your opponent has left" });
   } else {
     // Notify opponent
+    room.pendingNewGame = clientId;
     io.to(room.sockets[opponentId]).emit("new-game-request");
     ack({ success: true });
   }
-});
+}));
 
 // --- Respond to new game ---
 socket.on(
   "respond-new-game",
-  ({ roomId, accept }: { roomId: string; accept: boolean }) => {
+  validated("respond-new-game", ({ roomId, accept }) => {
     const room = rooms[roomId];
     if (!room) return;
 
-    // Identify proposer (other player)
-    const proposerId = Object.keys(room.players).find((id) => id !== clientId) ?? null;
-    if (!proposerId || !room.sockets[proposerId]) return;
+    // Only the other player's pending proposal can be answered
+    const proposerId = room.pendingNewGame;
+    if (!proposerId || proposerId === clientId || !room.players[clientId]) return;
+    room.pendingNewGame = null;
+    if (!room.sockets[proposerId]) return;
 
     if (accept) {
-      // Reset the game
+      // Reset the game (the next game of a series is played with colours swapped)
+      if (room.result) advanceSeries(room);
       resetGame(roomId);
       // Notify both players
-      io.in(roomId).emit("new-game-started");
+      io.in(roomId).emit("new-game-started", { roleMap: publicRoleMap(room.roleMap), series: seriesPayload(room) });
     } else {
       // Notify proposer and remove responder from the room
       io.to(room.sockets[proposerId]).emit("new-game-declined");
     }
+  })
+);
+
+// --- Propose takeback ---
+socket.on("propose-takeback", validated("propose-takeback", ({ roomId }, ack) => {
+  const room = rooms[roomId];
+  if (!room) return ack({ success: false, message: "Room not found" });
+  if (room.result) return ack({ success: false, message: "Game already over" });
+  if (room.opening) return ack({ success: false, message: "Opening in progress" });
+
+  const role = room.players[clientId];
+  if (!role) return ack({ success: false, message: "Not a player" });
+
+  const lastOwnMove = room.moves.map((m) => m.role).lastIndexOf(role);
+  if (lastOwnMove < room.openingMoves) return ack({ success: false, message: "No move to take back" });
+
+  const allowed = room.settings.takebacks;
+  if (allowed !== null && (room.takebacksUsed[clientId] ?? 0) >= allowed) {
+    return ack({ success: false, message: "No takebacks left" });
+  }
+
+  const opponentId = Object.keys(room.players).find((id) => id !== clientId);
+  if (!opponentId || !room.sockets[opponentId]) {
+    return ack({ success: false, message: "No opponent to ask" });
   }
+
+  room.pendingTakeback = clientId;
+  io.to(room.sockets[opponentId]).emit("takeback-request");
+  ack({ success: true });
+}));
+
+// --- Respond to takeback ---
+// Undoes the proposer's last move and anything played after it, so it is their turn again.
+socket.on(
+  "respond-takeback",
+  validated("respond-takeback", ({ roomId, accept }) => {
+    const room = rooms[roomId];
+    if (!room) return;
+
+    const proposerId = room.pendingTakeback;
+    if (!proposerId || proposerId === clientId || !room.players[clientId]) return;
+    room.pendingTakeback = null;
+
+    if (!accept) {
+      if (room.sockets[proposerId]) io.to(room.sockets[proposerId]).emit("takeback-declined");
+      return;
+    }
+
+    const role = room.players[proposerId];
+    const lastOwnMove = room.moves.map((m) => m.role).lastIndexOf(role);
+    if (!role || room.result || lastOwnMove < room.openingMoves) return;
+
+    for (const move of room.moves.splice(lastOwnMove)) {
+      delete room.stones[pointKey(move.row, move.col)];
+      room.turnNumber--;
+    }
+    room.takebacksUsed[proposerId] = (room.takebacksUsed[proposerId] ?? 0) + 1;
+
+    // The proposer's clock starts a fresh move; time already used is not refunded
+    if (room.clock) {
+      stopClock(roomId);
+      room.clock.moveUsed = 0;
+    }
+    refreshClock(roomId);
+
+    io.in(roomId).emit("takeback-accepted");
+    io.in(roomId).emit("sync-state", syncStatePayload(roomId));
+  })
 );
 
+// --- Resign ---
+socket.on("resign", validated("resign", ({ roomId }, ack) => {
+  const room = rooms[roomId];
+  if (!room) return ack({ success: false, message: "Room not found" });
+  if (room.result) return ack({ success: false, message: "Game already over" });
+
+  const role = room.players[clientId];
+  if (!role) return ack({ success: false, message: "Not a player" });
+
+  finishGame(roomId, { winner: opponentOf(role), reason: "resign" });
+  ack({ success: true });
+}));
+
+// --- Offer draw ---
+socket.on("offer-draw", validated("offer-draw", ({ roomId }, ack) => {
+  const room = rooms[roomId];
+  if (!room) return ack({ success: false, message: "Room not found" });
+  if (room.result) return ack({ success: false, message: "Game already over" });
+  if (!room.players[clientId]) return ack({ success: false, message: "Not a player" });
+
+  const opponentId = Object.keys(room.players).find((id) => id !== clientId);
+  if (!opponentId || !room.sockets[opponentId]) {
+    return ack({ success: false, message: "No opponent to offer a draw to" });
+  }
+
+  room.pendingDraw = clientId;
+  io.to(room.sockets[opponentId]).emit("draw-offer");
+  ack({ success: true });
+}));
+
+// --- Respond to draw offer ---
+socket.on(
+  "respond-draw",
+  validated("respond-draw", ({ roomId, accept }) => {
+    const room = rooms[roomId];
+    if (!room) return;
+
+    const proposerId = room.pendingDraw;
+    if (!proposerId || proposerId === clientId || !room.players[clientId]) return;
+    room.pendingDraw = null;
+
+    if (accept) {
+      finishGame(roomId, { winner: null, reason: "draw-agreed" });
+    } else if (room.sockets[proposerId]) {
+      io.to(room.sockets[proposerId]).emit("draw-declined");
+    }
+  })
+);
 
   // --- Disconnect ---
   socket.on("disconnect", () => {
+  scheduleSave();
+
+  if (matchQueue.get(clientId)?.socketId === socket.id) matchQueue.delete(clientId);
 
   for (const roomId in rooms) {
     const room = rooms[roomId];
+
+    if (room.spectators[clientId]) {
+      delete room.spectators[clientId];
+      spectatorsChanged(roomId);
+    }
+
     const role = room.players[clientId];
     if (!role) continue;
 
     // --- Remove only socket reference ---
     delete room.sockets[clientId];
+    touchRoom(roomId);
+
+    // Pause the clock if it was this player's move
+    refreshClock(roomId);
 
     if (room.hostId === clientId) {
-      // --- Host left: transfer host or delete room ---
+      // --- Host left: hand hosting to the other player ---
       const otherId =
         room.roleMap.X === clientId ? room.roleMap.O : room.roleMap.X;
 
@@ -389,9 +1428,6 @@ socket.on(
         if (room.sockets[otherId]) {
           io.to(room.sockets[otherId]).emit("host-changed");
         }
-      } else {
-        // No players left → delete room
-        delete rooms[roomId];
       }
     } else {
       // --- Non-host left: notify host ---
@@ -399,48 +1435,37 @@ socket.on(
         io.to(room.sockets[room.hostId]).emit("opponent-left");
       }
     }
+    // An empty room is left to the sweeper's `empty` TTL; the first player back holds the other's seat again
     if (Object.keys(room.sockets).length === 0) {
-      delete rooms[roomId];
+      cancelGrace(roomId);
+    } else {
+      startGrace(roomId, clientId);
     }
+    updateLobby(roomId);
   }
 });
 
-socket.on("leaving-game", ({ roomId }) => {
+socket.on("leaving-game", validated("leaving-game", ({ roomId }) => {
   const room = rooms[roomId];
   if (!room) return;
 
-  const role = room.players[clientId];
-  if (!role) return;
-
-  delete room.players[clientId];
-  delete room.roleMap[role];
-  delete room.sockets[clientId];
-  delete room.names[clientId];
-  delete room.scores[clientId];
-  room.messages = [];
-  resetGame(roomId);
-  
-  const remainingId = Object.keys(room.players)[0] ?? null;
-  if (room.hostId === clientId) {
-    if (remainingId) {
-      room.hostId = remainingId;
-      if (room.sockets[remainingId]) {
-        io.to(room.sockets[remainingId]).emit("host-changed");
-      }
-    } else {
-      delete rooms[roomId];
-    }
-  } else if (room.hostId && room.sockets[room.hostId]) {
-    io.to(room.sockets[room.hostId]).emit("opponent-left");
+  if (room.spectators[clientId]) {
+    delete room.spectators[clientId];
+    socket.leave(roomId);
+    spectatorsChanged(roomId);
+    socket.emit("room-left-intentional");
+    return;
   }
-  io.to(room.sockets[room.hostId]).emit("opponent-intentionally-left");
-  socket.emit("room-left-intentional");
-});
+
+  leaveRoomIntentional(roomId, clientId, socket);
+}));
 
 // --- Propose switch roles ---
-socket.on("propose-switch-roles", ({ roomId }, ack) => {
+socket.on("propose-switch-roles", validated("propose-switch-roles", ({ roomId }, ack) => {
   const room = rooms[roomId];
   if (!room) return ack?.({ success: false, message: "Room not found" });
+  if (!room.players[clientId]) return ack?.({ success: false, message: "Not a player" });
+  if (!room.result && room.moves.length > 0) return ack?.({ success: false, message: "Game in progress" });
 
   const opponentId = Object.keys(room.players).find((id) => id !== clientId);
   if (!opponentId || !room.sockets[opponentId]) {
@@ -448,21 +1473,29 @@ socket.on("propose-switch-roles", ({ roomId }, ack) => {
   }
 
   // Notify opponent
+  room.pendingSwitch = clientId;
   io.to(room.sockets[opponentId]).emit("switch-roles-request");
 
   ack?.({ success: true });
-});
+}));
 
 
 // --- Respond to switch roles ---
 socket.on(
   "respond-switch-roles",
-  ({ roomId, accepted }: { roomId: string; accepted: boolean }) => {
+  validated("respond-switch-roles", ({ roomId, accepted }) => {
     const room = rooms[roomId];
-    if (!room) return;
-
-    const proposerId = Object.keys(room.players).find((id) => id !== clientId);
-    if (!proposerId || !room.sockets[proposerId]) return;
+    if (!room || !room.players[clientId]) return;
+
+    // Only the other player's pending proposal can be answered, and never mid-game
+    const proposerId = room.pendingSwitch;
+    if (!proposerId || proposerId === clientId) return;
+    room.pendingSwitch = null;
+    if (!room.sockets[proposerId]) return;
+    if (!room.result && room.moves.length > 0) {
+      io.to(room.sockets[proposerId]).emit("switch-roles-declined");
+      return;
+    }
 
     if (!accepted) {
       // Notify proposer that opponent declined
@@ -483,16 +1516,17 @@ socket.on(
 
     // Notify each player their *own* new role
     io.to(room.sockets[clientId]).emit("switch-roles-accepted", {
-      newRole: room.players[clientId], roleMap: room.roleMap
+      newRole: room.players[clientId], roleMap: publicRoleMap(room.roleMap)
     });
     io.to(room.sockets[proposerId]).emit("switch-roles-accepted", {
-      newRole: room.players[proposerId], roleMap: room.roleMap
+      newRole: room.players[proposerId], roleMap: publicRoleMap(room.roleMap)
     });
-  }
+    refreshClock(roomId);
+  })
 );
 
 // --- Kick Player ---
-socket.on("kick-player", ({ roomId }: { roomId: string }) => {
+socket.on("kick-player", validated("kick-player", ({ roomId, ban }) => {
   const room = rooms[roomId];
   if (!room) return;
 
@@ -503,42 +1537,101 @@ socket.on("kick-player", ({ roomId }: { roomId: string }) => {
   const opponentId = Object.keys(room.players).find((id) => id !== clientId);
   if (!opponentId) return;
 
-  /*
-  // Disconnect opponent
-  const opponentSocketId = room.sockets[opponentId];
-  if (opponentSocketId) {
-    io.to(opponentSocketId).emit("kicked"); // Notify client
-    io.sockets.sockets.get(opponentSocketId)?.disconnect();
+  // Tell the kicked player and take their socket out of the room
+  const opponentSocket = io.sockets.sockets.get(room.sockets[opponentId]);
+  if (opponentSocket) {
+    opponentSocket.emit("kicked");
+    opponentSocket.leave(roomId);
   }
-    */
 
-  // Remove opponent from room
-  delete room.players[opponentId];
-  delete room.sockets[opponentId];
-  delete room.names[opponentId];
-  delete room.scores[opponentId];
+  // A banned player can't come back, even with the password
+  room.admitted = room.admitted.filter((id) => id !== opponentId);
+  if (ban) room.banned.push(opponentId);
 
-  // Remove from roleMap
-  for (const role of ["X", "O"] as PlayerRole[]) {
-    if (room.roleMap[role] === opponentId) {
-      delete room.roleMap[role];
-    }
+  // The kicked player forfeits a game in progress; one that never got going is just cleared
+  if (!room.result && room.moves.length > 0) {
+    finishGame(roomId, { winner: opponentOf(room.players[opponentId]), reason: "abandoned" });
+  } else if (!room.result) {
+    resetGame(roomId);
   }
-});
+  releaseSeat(roomId, opponentId);
+  io.in(roomId).emit("sync-state", syncStatePayload(roomId));
+}));
+
+// --- Lock / unlock the room against new joiners ---
+socket.on("set-room-lock", validated("set-room-lock", ({ roomId, locked }, ack) => {
+  const room = rooms[roomId];
+  if (!room) return ack({ success: false, message: "Room not found" });
+  if (room.hostId !== clientId) return ack({ success: false, message: "Only the host can lock the room" });
 
-  socket.on("chat-message", ({ roomId, text }) => {
+  room.locked = locked;
+  ack({ success: true });
+  io.in(roomId).emit("room-lock-changed", { locked });
+  updateLobby(roomId);
+  scheduleSave();
+}));
+
+  // --- Matchmaking ---
+  socket.on("find-match", validated("find-match", (_payload, ack) => {
+    // A second tab searching for the same client takes over the queue entry
+    matchQueue.delete(clientId);
+    const player = { clientId, socketId: socket.id };
+
+    ack({ success: true });
+    const opponent = pickOpponent(player);
+    if (opponent) startMatch(opponent, player);
+    else matchQueue.set(clientId, player);
+  }));
+
+  socket.on("cancel-match", validated("cancel-match", (_payload, ack) => {
+    if (matchQueue.get(clientId)?.socketId === socket.id) matchQueue.delete(clientId);
+    ack({ success: true });
+  }));
+
+  // --- Lobby subscription ---
+  socket.on("subscribe-lobby", validated("subscribe-lobby", (_payload, ack) => {
+    socket.join(LOBBY_CHANNEL);
+    ack({ success: true, rooms: Object.values(lobby) });
+  }));
+
+  socket.on("unsubscribe-lobby", validated("unsubscribe-lobby", (_payload, ack) => {
+    socket.leave(LOBBY_CHANNEL);
+    ack({ success: true });
+  }));
+
+  socket.on("chat-message", validated("chat-message", ({ roomId, text }) => {
     const room = rooms[roomId];
     if (!room) return;
 
+    // Spectators have their own chat, kept apart from the players' one
+    const spectator = room.spectators[clientId];
+    if (spectator) {
+      const message = { sender: spectator.name || "Spectator", text };
+      room.spectatorMessages.push(message);
+      io.in(roomId).emit("spectator-chat-message", message);
+      return;
+    }
+    if (!room.players[clientId]) return;
+
     const message = { sender: clientId, text };
 
     // Store in the room
     room.messages.push(message);
 
     // Broadcast to all clients in the room
-    io.in(roomId).emit("chat-message", message);
-});
+    io.in(roomId).emit("chat-message", publicMessage(message));
+}));
 });
 
+// Save on shutdown so a redeploy keeps every room
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    saveRooms();
+    process.exit(0);
+  });
+}
+
+restoreRooms();
+
 const PORT = process.env.PORT || 5000;
 server.listen(PORT, () => console.log(`Server running on port ${PORT}`));
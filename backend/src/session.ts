@@ -0,0 +1,45 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { loadJson, saveJson } from "./storage";
+
+// Tokens are "<clientId>.<HMAC of clientId>". The secret comes from SESSION_SECRET,
+// or is generated once and stored next to the saved rooms so tokens survive restarts.
+function loadSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  const stored = loadJson<{ secret?: string }>("session", {});
+  if (stored.secret) return stored.secret;
+
+  const secret = randomBytes(32).toString("hex");
+  saveJson("session", { secret });
+  return secret;
+}
+
+const SECRET = loadSecret();
+
+function sign(value: string) {
+  return createHmac("sha256", SECRET).update(value).digest("base64url");
+}
+
+// A new identity for a client that has no valid token
+export function issueSession(): { clientId: string; token: string } {
+  const clientId = randomUUID();
+  return { clientId, token: `${clientId}.${sign(clientId)}` };
+}
+
+// The clientId a token was issued for, or null if it is missing or forged
+export function verifyToken(token: unknown): string | null {
+  if (typeof token !== "string") return null;
+
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+
+  const clientId = token.slice(0, dot);
+  const given = Buffer.from(token.slice(dot + 1));
+  const expected = Buffer.from(sign(clientId));
+  return given.length === expected.length && timingSafeEqual(given, expected) ? clientId : null;
+}
+
+// Stable id that is safe to show other clients: it cannot be turned back into a token
+export function publicId(clientId: string) {
+  return sign(`public:${clientId}`).slice(0, 16);
+}
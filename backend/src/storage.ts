@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+
+// File-based storage under DATA_DIR (default: ./data, i.e. backend/data for the npm scripts).
+// Snapshots are whole JSON files; logs are append-only JSON lines.
+const DATA_DIR = path.resolve(process.env.DATA_DIR || "data");
+
+function filePath(name: string, ext: string) {
+  return path.join(DATA_DIR, `${name}.${ext}`);
+}
+
+// Reads a snapshot, or returns the fallback if it is missing or unreadable
+export function loadJson<T>(name: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath(name, "json"), "utf8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Could not read ${name}.json:`, err);
+    }
+    return fallback;
+  }
+}
+
+// Writes to a temp file first so a crash mid-write never leaves a truncated snapshot
+export function saveJson(name: string, data: unknown) {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  const target = filePath(name, "json");
+  fs.writeFileSync(`${target}.tmp`, JSON.stringify(data));
+  fs.renameSync(`${target}.tmp`, target);
+}
+
+export function appendJsonLine(name: string, record: unknown) {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.appendFileSync(filePath(name, "jsonl"), JSON.stringify(record) + "\n");
+}
+
+// Every record in a log, skipping lines that fail to parse (e.g. a partial last write)
+export function readJsonLines<T>(name: string): T[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath(name, "jsonl"), "utf8");
+  } catch {
+    return [];
+  }
+
+  const records: T[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      console.error(`Skipping unreadable line in ${name}.jsonl`);
+    }
+  }
+  return records;
+}
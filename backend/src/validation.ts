@@ -0,0 +1,130 @@
+import {
+  MAX_CHAT_LENGTH,
+  MAX_COORDINATE,
+  MAX_NAME_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  MAX_ROOM_ID_LENGTH,
+  type Ack,
+  type ClientToServerEvents,
+} from "../../shared/protocol";
+
+// --- Runtime payload checks ---
+// Each check returns the value (unknown keys stripped) or throws a ValidationError naming the bad field.
+export class ValidationError extends Error {}
+
+type Check<T> = (value: unknown, path: string) => T;
+
+const str = (min: number, max: number): Check<string> => (value, path) => {
+  if (typeof value !== "string") throw new ValidationError(`${path} must be a string`);
+  if (value.length < min || value.length > max) {
+    throw new ValidationError(`${path} must be ${min}-${max} characters`);
+  }
+  return value;
+};
+
+const int = (min: number, max: number): Check<number> => (value, path) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    throw new ValidationError(`${path} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+};
+
+const bool: Check<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new ValidationError(`${path} must be true or false`);
+  return value;
+};
+
+const oneOf = <T extends string>(...values: T[]): Check<T> => (value, path) => {
+  if (!values.includes(value as T)) throw new ValidationError(`${path} must be one of ${values.join(", ")}`);
+  return value as T;
+};
+
+const optional = <T>(check: Check<T>): Check<T | undefined> => (value, path) =>
+  value === undefined ? undefined : check(value, path);
+
+const nullable = <T>(check: Check<T>): Check<T | null> => (value, path) =>
+  value === null ? null : check(value, path);
+
+const object = <S extends Record<string, Check<unknown>>>(shape: S): Check<{ [K in keyof S]: ReturnType<S[K]> }> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new ValidationError(`${path} must be an object`);
+    }
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    for (const key in shape) output[key] = shape[key](input[key], `${path}.${key}`);
+    return output as { [K in keyof S]: ReturnType<S[K]> };
+  };
+
+// --- Payload schemas ---
+// Value ranges that depend on other settings are left to parseSettings / the handlers.
+const roomId = str(1, MAX_ROOM_ID_LENGTH);
+const coordinate = int(-MAX_COORDINATE, MAX_COORDINATE);   // finite boards are bounds-checked by the handlers
+const role = oneOf("X", "O");
+const count = int(0, Number.MAX_SAFE_INTEGER);
+const room = object({ roomId });
+
+export const schemas = {
+  "requestRoom": object({
+    boardWidth: optional(count),
+    boardHeight: optional(count),
+    winLength: optional(count),
+    blockedEnds: optional(bool),
+    noOverline: optional(bool),
+    renju: optional(bool),
+    opening: optional(oneOf("none", "swap", "swap2")),
+    timeControl: optional(nullable(object({ baseMs: count, incrementMs: count, moveMs: count }))),
+    takebacks: optional(nullable(count)),
+    isPublic: optional(bool),
+    seriesLength: optional(nullable(count)),
+    rated: optional(bool),
+    infinite: optional(bool),
+    password: optional(str(0, MAX_PASSWORD_LENGTH)),
+  }),
+  "join-room": object({ roomId, password: optional(str(0, MAX_PASSWORD_LENGTH)) }),
+  "sync-request": room,
+  "get-name": object({ roomId, name: str(1, MAX_NAME_LENGTH) }),
+  "make-move": object({ roomId, row: coordinate, col: coordinate, role }),
+  "opening-place": object({ roomId, row: coordinate, col: coordinate }),
+  "opening-choose": object({ roomId, choice: oneOf("X", "O", "place-two") }),
+  "propose-new-game": room,
+  "respond-new-game": object({ roomId, accept: bool }),
+  "propose-takeback": room,
+  "respond-takeback": object({ roomId, accept: bool }),
+  "resign": room,
+  "offer-draw": room,
+  "respond-draw": object({ roomId, accept: bool }),
+  "leaving-game": room,
+  "propose-switch-roles": room,
+  "respond-switch-roles": object({ roomId, accepted: bool }),
+  "kick-player": object({ roomId, ban: optional(bool) }),
+  "set-room-lock": object({ roomId, locked: bool }),
+  "chat-message": object({ roomId, text: str(1, MAX_CHAT_LENGTH) }),
+  "subscribe-lobby": object({}),
+  "unsubscribe-lobby": object({}),
+  "find-match": object({}),
+  "cancel-match": object({}),
+} satisfies { [E in keyof ClientToServerEvents]: Check<Parameters<ClientToServerEvents[E]>[0]> };
+
+type Payload<E extends keyof typeof schemas> = ReturnType<(typeof schemas)[E]>;
+type AckOf<E extends keyof ClientToServerEvents> = NonNullable<Parameters<ClientToServerEvents[E]>[1]>;
+
+// Wraps a handler so it only ever sees a checked payload and a callable ack.
+// Bad input is answered with { success: false, message } and never reaches the handler.
+export function validated<E extends keyof typeof schemas>(
+  event: E,
+  handler: (payload: Payload<E>, ack: AckOf<E>) => void
+) {
+  return (payload: unknown, ack?: AckOf<E>) => {
+    const reply = (typeof ack === "function" ? ack : () => {}) as AckOf<E>;
+
+    let parsed: Payload<E>;
+    try {
+      parsed = schemas[event](payload, "payload") as Payload<E>;
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      return (reply as Ack)({ success: false, message: `Invalid request: ${err.message}` });
+    }
+    handler(parsed, reply);
+  };
+}
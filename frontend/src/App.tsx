@@ -1,12 +1,20 @@
 import { Routes, Route } from "react-router-dom";
 import Home from "./Home";
 import Room from "./Room";
+import Viewer from "./Viewer";
+import SinglePlayer from "./SinglePlayer";
+import Leaderboard from "./Leaderboard";
+import Profile from "./Profile";
 
 function App() {
   return (
     <Routes>
       <Route path="/" element={<Home />} />
       <Route path="/room/:roomId" element={<Room />} />
+      <Route path="/viewer" element={<Viewer />} />
+      <Route path="/single" element={<SinglePlayer />} />
+      <Route path="/leaderboard" element={<Leaderboard />} />
+      <Route path="/players/:playerId" element={<Profile />} />
     </Routes>
   );
 }
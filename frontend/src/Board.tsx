@@ -0,0 +1,317 @@
+// Board.tsx
+// The game board drawn on a single canvas. Handles hit-testing, wheel and pinch zoom,
+// drag to pan, and highlights for the winning line, the latest move and Renju-forbidden points.
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent, type ReactNode } from "react";
+import { pointKey, type BoardView, type Stones } from "./roomSettings";
+import type { Point } from "../../shared/protocol";
+
+const CELL_SIZE = 30;
+const PADDING = CELL_SIZE / 2;      // keeps stones on the outer lines inside the canvas
+const MIN_ZOOM = 0.25;              // zoom out to see more of a big or infinite board
+const MAX_ZOOM = 4;
+const DRAG_THRESHOLD = 6;           // pixels a pointer may move and still count as a click
+const NO_POINTS: Point[] = [];
+
+// screen = board * zoom + (x, y), in CSS pixels relative to the canvas
+interface Camera {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+interface BoardProps {
+  view: BoardView;
+  stones: Stones;
+  winningLine?: Point[] | null;
+  latestMove?: Point | null;
+  forbidden?: Point[];
+  onCellClick?: (row: number, col: number) => void;
+  children?: ReactNode;             // overlays shown on top of the board
+}
+
+// Canvas can't use CSS variables directly, so read the theme once
+function readTheme() {
+  const style = getComputedStyle(document.documentElement);
+  const color = (name: string) => style.getPropertyValue(name).trim();
+  return {
+    x: color("--color-danger"),
+    o: color("--color-primary"),
+    winning: color("--color-success"),
+    latest: color("--color-warning"),
+    forbidden: color("--color-danger"),
+  };
+}
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const zoomAround = (camera: Camera, zoom: number, px: number, py: number): Camera => ({
+  zoom,
+  x: px - ((px - camera.x) / camera.zoom) * zoom,
+  y: py - ((py - camera.y) / camera.zoom) * zoom,
+});
+
+export default function Board({ view, stones, winningLine, latestMove, forbidden = NO_POINTS, onCellClick, children }: BoardProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const theme = useMemo(readTheme, []);
+
+  const naturalWidth = (view.width - 1) * CELL_SIZE + 2 * PADDING;
+  const naturalHeight = (view.height - 1) * CELL_SIZE + 2 * PADDING;
+
+  // Until the container is measured, assume it is capped at the window like .board-canvas
+  const [size, setSize] = useState(() => ({
+    width: Math.min(naturalWidth, window.innerWidth),
+    height: Math.min(naturalHeight, window.innerHeight),
+  }));
+  const [camera, setCamera] = useState<Camera>({ zoom: 1, x: 0, y: 0 });
+  const [hover, setHover] = useState<Point | null>(null);
+  // Only whether the board takes clicks matters for drawing; the handler itself is a new function on most renders
+  const clickable = onCellClick !== undefined;
+
+  // A board larger than the canvas keeps covering it; a smaller one (zoomed out) sits in the middle.
+  // The stored camera may drift outside when the board or canvas changes size, so it is read through this.
+  const clamp = useCallback(
+    (c: Camera): Camera => {
+      const zoom = clampZoom(c.zoom);
+      const axis = (offset: number, extent: number, length: number) =>
+        length <= extent ? (extent - length) / 2 : Math.min(0, Math.max(extent - length, offset));
+      return {
+        zoom,
+        x: axis(c.x, size.width, naturalWidth * zoom),
+        y: axis(c.y, size.height, naturalHeight * zoom),
+      };
+    },
+    [size.width, size.height, naturalWidth, naturalHeight]
+  );
+  const shown = useMemo(() => clamp(camera), [clamp, camera]);
+
+  // Nearest intersection to a point on the canvas, or null when it's off the board
+  const hitTest = (px: number, py: number): Point | null => {
+    const col = view.left + Math.round(((px - shown.x) / shown.zoom - PADDING) / CELL_SIZE);
+    const row = view.top + Math.round(((py - shown.y) / shown.zoom - PADDING) / CELL_SIZE);
+    if (row < view.top || row >= view.top + view.height || col < view.left || col >= view.left + view.width) return null;
+    return { row, col };
+  };
+
+  // --- Canvas size follows the container (it may be smaller than the board on phones or big boards) ---
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() =>
+      setSize({ width: container.clientWidth, height: container.clientHeight })
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // --- An infinite board growing up or left shifts everything; move the camera so stones stay put ---
+  const previousView = useRef(view);
+  useEffect(() => {
+    const dx = (previousView.current.left - view.left) * CELL_SIZE;
+    const dy = (previousView.current.top - view.top) * CELL_SIZE;
+    previousView.current = view;
+    if (dx || dy) setCamera((c) => ({ ...c, x: c.x - dx * c.zoom, y: c.y - dy * c.zoom }));
+  }, [view]);
+
+  // --- Bring a new move into sight when it lands outside the visible area ---
+  useEffect(() => {
+    if (!latestMove) return;
+    setCamera((stored) => {
+      const c = clamp(stored);
+      const x = (PADDING + (latestMove.col - view.left) * CELL_SIZE) * c.zoom + c.x;
+      const y = (PADDING + (latestMove.row - view.top) * CELL_SIZE) * c.zoom + c.y;
+      const margin = PADDING * c.zoom;
+      if (x >= margin && x <= size.width - margin && y >= margin && y <= size.height - margin) return stored;
+      return clamp({ ...c, x: c.x + size.width / 2 - x, y: c.y + size.height / 2 - y });
+    });
+  }, [latestMove, view.left, view.top, size.width, size.height, clamp]);
+
+  // --- Wheel zoom (a native listener so the page doesn't scroll at the same time) ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      setCamera(clamp(zoomAround(shown, clampZoom(shown.zoom * Math.exp(-e.deltaY * 0.0015)), e.clientX - rect.left, e.clientY - rect.top)));
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [clamp, shown]);
+
+  // --- Pointer gestures: click, drag to pan, two-finger pinch ---
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<{ start: { x: number; y: number }; camera: Camera; moved: boolean; pinch?: number } | null>(null);
+
+  const localPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startGesture = () => {
+    const [a, b] = [...pointers.current.values()];
+    const start = b ? { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } : a;
+    gesture.current = {
+      start,
+      camera: shown,
+      moved: gesture.current?.moved ?? false,
+      pinch: b ? Math.hypot(a.x - b.x, a.y - b.y) : undefined,
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (pointers.current.size === 0) gesture.current = null;
+    pointers.current.set(e.pointerId, localPoint(e));
+    startGesture();
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const point = localPoint(e);
+    if (e.pointerType === "mouse") setHover(hitTest(point.x, point.y));
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, point);
+
+    const g = gesture.current;
+    const [a, b] = [...pointers.current.values()];
+    if (b && g.pinch) {
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      const zoomed = zoomAround(g.camera, clampZoom(g.camera.zoom * (Math.hypot(a.x - b.x, a.y - b.y) / g.pinch)), g.start.x, g.start.y);
+      g.moved = true;
+      setCamera(clamp({ ...zoomed, x: zoomed.x + mid.x - g.start.x, y: zoomed.y + mid.y - g.start.y }));
+      return;
+    }
+
+    const dx = a.x - g.start.x, dy = a.y - g.start.y;
+    if (!g.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    g.moved = true;
+    setCamera(clamp({ ...g.camera, x: g.camera.x + dx, y: g.camera.y + dy }));
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const g = gesture.current;
+    if (pointers.current.size > 0) return startGesture();
+
+    if (g && !g.moved && e.type === "pointerup" && onCellClick) {
+      const { x, y } = localPoint(e);
+      const point = hitTest(x, y);
+      if (point) onCellClick(point.row, point.col);
+    }
+  };
+
+  // --- Draw ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    ctx.translate(shown.x, shown.y);
+    ctx.scale(shown.zoom, shown.zoom);
+
+    // Only the rows and columns on screen
+    const visible = (offset: number, extent: number, count: number) => {
+      const first = Math.floor((-offset / shown.zoom - PADDING) / CELL_SIZE) - 1;
+      const last = Math.ceil(((extent - offset) / shown.zoom - PADDING) / CELL_SIZE) + 1;
+      return [Math.max(0, first), Math.min(count - 1, last)];
+    };
+    const [c0, c1] = visible(shown.x, size.width, view.width);
+    const [r0, r1] = visible(shown.y, size.height, view.height);
+    const at = (i: number) => PADDING + i * CELL_SIZE;
+
+    ctx.strokeStyle = "rgba(125, 192, 255, 0.5)";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let r = r0; r <= r1; r++) {
+      ctx.moveTo(at(c0), at(r));
+      ctx.lineTo(at(c1), at(r));
+    }
+    for (let c = c0; c <= c1; c++) {
+      ctx.moveTo(at(c), at(r0));
+      ctx.lineTo(at(c), at(r1));
+    }
+    ctx.stroke();
+
+    const center = (p: Point) => ({ x: at(p.col - view.left), y: at(p.row - view.top) });
+    const dot = (p: Point, radius: number) => {
+      const { x, y } = center(p);
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+    };
+
+    if (hover && clickable && !stones[pointKey(hover.row, hover.col)]) {
+      dot(hover, 12);
+      ctx.fillStyle = "rgba(59, 130, 246, 0.12)";
+      ctx.fill();
+    }
+
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = theme.forbidden;
+    for (const p of forbidden) {
+      if (stones[pointKey(p.row, p.col)]) continue;
+      dot(p, 4);
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+
+    // The winning five gets a bar under its stones
+    if (winningLine && winningLine.length > 1) {
+      const start = center(winningLine[0]);
+      const end = center(winningLine[winningLine.length - 1]);
+      ctx.strokeStyle = theme.winning;
+      ctx.globalAlpha = 0.35;
+      ctx.lineWidth = 10;
+      ctx.lineCap = "round";
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+    }
+
+    if (latestMove) {
+      dot(latestMove, 14);
+      ctx.strokeStyle = theme.latest;
+      ctx.lineWidth = 2.5;
+      ctx.stroke();
+    }
+
+    const winning = new Set(winningLine?.map((p) => pointKey(p.row, p.col)));
+    ctx.font = "bold 32px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.shadowColor = "rgba(0, 0, 0, 0.4)";
+    ctx.shadowOffsetY = 2 * shown.zoom * dpr;
+    ctx.shadowBlur = 4 * shown.zoom * dpr;
+    for (const [key, role] of Object.entries(stones)) {
+      const [row, col] = key.split(",").map(Number);
+      const r = row - view.top, c = col - view.left;
+      if (r < r0 || r > r1 || c < c0 || c > c1) continue;
+      ctx.fillStyle = winning.has(key) ? theme.winning : role === "X" ? theme.x : theme.o;
+      ctx.fillText(role, at(c), at(r) + 2);
+    }
+  }, [size, shown.x, shown.y, shown.zoom, view, stones, winningLine, latestMove, forbidden, hover, clickable, theme]);
+
+  const hoverForbidden = hover && forbidden.some((p) => p.row === hover.row && p.col === hover.col);
+
+  return (
+    <div ref={containerRef} className="board-canvas" style={{ width: naturalWidth, height: naturalHeight }}>
+      <canvas
+        ref={canvasRef}
+        title={hoverForbidden ? "Forbidden for X" : undefined}
+        style={{ cursor: hoverForbidden ? "not-allowed" : clickable ? "pointer" : "default" }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setHover(null)}
+      />
+      {children}
+    </div>
+  );
+}
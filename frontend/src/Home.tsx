@@ -1,10 +1,29 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { socket } from "./socket"; // adjust path if needed
+import {
+  DEFAULT_SETTINGS,
+  BOARD_SIZES,
+  WIN_LENGTHS,
+  OPENING_RULES,
+  TIME_CONTROLS,
+  TAKEBACK_OPTIONS,
+  SERIES_OPTIONS,
+  type OpeningRule,
+  type PlayerRole,
+  type RoomSettings,
+  type BoardView,
+  type Stones,
+} from "./roomSettings";
+import { AI_LEVELS, type AiLevel } from "./ai/engine";
+import type { SinglePlayerOptions } from "./SinglePlayer";
+import Lobby from "./Lobby";
+import Board from "./Board";
+import { MAX_PASSWORD_LENGTH, type MatchFound } from "../../shared/protocol";
 
-const BOARD_WIDTH = 18;
-const BOARD_HEIGHT = 25;
-const CELL_SIZE = 30;
+// An empty board of the default size sits behind the menu
+const HOME_VIEW: BoardView = { top: 0, left: 0, width: DEFAULT_SETTINGS.boardWidth, height: DEFAULT_SETTINGS.boardHeight };
+const HOME_STONES: Stones = {};
 
 export default function Home() {
     const navigate = useNavigate();
@@ -12,8 +31,24 @@ export default function Home() {
     // States
     const [showMenu, setShowMenu] = useState(true);
     const [joinGameDialog, setJoinGameDialog] = useState(false);
+    const [lobbyDialog, setLobbyDialog] = useState(false);
+    const [searching, setSearching] = useState(false);
+    const [searchError, setSearchError] = useState<string | null>(null);
+    const [singleGameDialog, setSingleGameDialog] = useState(false);
+    const [singleOptions, setSingleOptions] = useState<SinglePlayerOptions>({
+      level: "medium",
+      boardWidth: DEFAULT_SETTINGS.boardWidth,
+      boardHeight: DEFAULT_SETTINGS.boardHeight,
+      humanRole: "X",
+    });
+    const [hostGameDialog, setHostGameDialog] = useState(false);
+    const [hostSettings, setHostSettings] = useState<RoomSettings>(DEFAULT_SETTINGS);
+    const [hostError, setHostError] = useState<string | null>(null);
     const [userRoomCode, setUserRoomCode] = useState("");
     const [joinError, setJoinError] = useState<string | null>(null);
+    const [hostPassword, setHostPassword] = useState("");
+    const [joinPassword, setJoinPassword] = useState("");
+    const [needsPassword, setNeedsPassword] = useState(false);
     const [loadingBackend, setLoadingBackend] = useState(true);
     //const [error, setError] = useState<string | null>(null);
 
@@ -38,20 +73,77 @@ export default function Home() {
     }, [backendUrl]);
 
 
-  // --- Host game ---
+  // --- Matchmaking ---
+  // While searching, the server may pair us at any moment; a dropped connection
+  // loses the queue spot, so search again after reconnecting. Cancelling or leaving
+  // the page gives the spot up, so nobody is matched into a room they never open.
+  useEffect(() => {
+    if (!searching) return;
+    let matched = false;
+
+    const findMatch = () => {
+      socket.emit("find-match", {}, (res) => {
+        if (!res.success) {
+          setSearchError(res.message);
+          setSearching(false);
+        }
+      });
+    };
+    const handleMatchFound = ({ roomId, role, isHost, publicId }: MatchFound) => {
+      matched = true;
+      setSearching(false);
+      navigate(`/room/${roomId}`, {
+        state: { isHost, publicId, playerRole: role, nameSet: false, matched: true },
+      });
+    };
+
+    findMatch();
+    socket.on("match-found", handleMatchFound);
+    socket.io.on("reconnect", findMatch);
+    return () => {
+      socket.off("match-found", handleMatchFound);
+      socket.io.off("reconnect", findMatch);
+      if (!matched) socket.emit("cancel-match", {});
+    };
+  }, [searching, navigate]);
+
+  const handleFindOpponent = () => {
+    setSearchError(null);
+    setSearching(true);
+  };
+
+  const cancelSearch = () => {
+    setSearching(false);
+  };
+
+  // --- Play vs computer ---
+  const startSingleGame = () => {
+    navigate("/single", { state: singleOptions });
+  };
+
+  // --- Open host dialog ---
   const handleHostGame = () => {
+    setHostError(null);
+    setHostGameDialog(true);
+  };
+
+  // --- Host game ---
+  const createRoom = () => {
     socket.emit(
       "requestRoom",
-      (res: { success: boolean; roomId?: string; role?: string; clientId?: string }) => {
-        if (res.success && res.roomId && res.role && res.clientId) {
+      { ...hostSettings, password: hostPassword },
+      (res: { success: boolean; roomId?: string; role?: string; publicId?: string; message?: string }) => {
+        if (res.success && res.roomId && res.role && res.publicId) {
           navigate(`/room/${res.roomId}`, {
             state: {
               isHost: true,
-              clientId: res.clientId,
+              publicId: res.publicId,
               playerRole: res.role,
               nameSet: false,
             },
           });
+        } else {
+          setHostError(res.message || "Failed to create room");
         }
       }
     );
@@ -59,27 +151,56 @@ export default function Home() {
 
   // --- Open join dialog ---
   const handleJoinGame = () => {
+    setNeedsPassword(false);
+    setJoinPassword("");
     setJoinGameDialog(true);
   };
 
+  // --- Open lobby ---
+  const handleBrowseGames = () => {
+    setJoinError(null);
+    setLobbyDialog(true);
+  };
+
   // --- Connect to room ---
   const connectToRoom = () => {
     if (!userRoomCode) return;
+    joinRoom(userRoomCode, joinPassword);
+  };
 
-    // For joining a room
+  // Password-protected lobby rooms go through the join dialog so the password can be typed in
+  const joinFromLobby = (roomId: string, hasPassword: boolean) => {
+    if (!hasPassword) return joinRoom(roomId);
+    setUserRoomCode(roomId);
+    setJoinPassword("");
+    setNeedsPassword(true);
+    setJoinError(null);
+    setLobbyDialog(false);
+    setJoinGameDialog(true);
+  };
+
+  const joinRoom = (roomId: string, password?: string) => {
     socket.emit(
     "join-room",
-    { roomId: userRoomCode },
-    (res: { success: boolean; role?: string; message?: string; clientId?: string; nameSet?: boolean}) => {
-        if (res.success && res.role && res.clientId) {
-        navigate(`/room/${userRoomCode}`, {
+    { roomId, password },
+    (res: { success: boolean; role?: string | null; spectator?: boolean; message?: string; code?: string; publicId?: string; nameSet?: boolean}) => {
+        if (res.success && (res.role || res.spectator) && res.publicId) {
+        navigate(`/room/${roomId}`, {
             state: {
             isHost: false,
-            clientId: res.clientId,
-            playerRole: res.role,
+            publicId: res.publicId,
+            playerRole: res.role ?? null,
             nameSet: res.nameSet ?? false,
+            spectator: res.spectator ?? false,
             },
         });
+        } else if (res.code === "password-required") {
+        // Keep the code and ask for the password
+        setJoinError(res.message || "This room needs a password");
+        setNeedsPassword(true);
+        setJoinGameDialog(true);
+        setLobbyDialog(false);
+        setUserRoomCode(roomId);
         } else {
         setJoinError(res.message || "Failed to join room");
         setUserRoomCode("");
@@ -101,23 +222,33 @@ export default function Home() {
         </button>
       </div>
 
-      <div
-        className="board"
-        style={{
-          width: (BOARD_WIDTH - 1) * CELL_SIZE,
-          height: (BOARD_HEIGHT - 1) * CELL_SIZE,
-        }}
-      >
+      <Board view={HOME_VIEW} stones={HOME_STONES}>
         {showMenu && (
           <div className="menu-overlay">
             <h1 className="menu-title">Caro</h1>
             <div className="menu-buttons">
+              <button className="menu-button single" onClick={() => setSingleGameDialog(true)}>
+                Play vs Computer
+              </button>
+              <button className="menu-button find-match" onClick={handleFindOpponent}>
+                Find Opponent
+              </button>
+              {searchError && <div className="join-error">{searchError}</div>}
               <button className="menu-button host-game" onClick={handleHostGame}>
                 Host Game
               </button>
               <button className="menu-button join-game" onClick={handleJoinGame}>
                 Join Game
               </button>
+              <button className="menu-button lobby" onClick={handleBrowseGames}>
+                Public Games
+              </button>
+              <button className="menu-button viewer" onClick={() => navigate("/viewer")}>
+                Replay Viewer
+              </button>
+              <button className="menu-button leaderboard" onClick={() => navigate("/leaderboard")}>
+                Leaderboard
+              </button>
               <button
                 className="menu-button exit"
                 onClick={() => setShowMenu(false)}
@@ -127,21 +258,228 @@ export default function Home() {
             </div>
           </div>
         )}
+      </Board>
+
+      {/* Single-player dialog */}
+      {singleGameDialog && (
+        <div className="join-dialog-overlay">
+          <div className="join-dialog-box">
+            <h2>Play vs Computer</h2>
+            <label className="settings-field">
+              <span>Difficulty</span>
+              <select
+                value={singleOptions.level}
+                onChange={(e) => setSingleOptions({ ...singleOptions, level: e.target.value as AiLevel })}
+              >
+                {AI_LEVELS.map((l) => (
+                  <option key={l.value} value={l.value}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>Board Size</span>
+              <select
+                value={`${singleOptions.boardWidth}x${singleOptions.boardHeight}`}
+                onChange={(e) => {
+                  const size = BOARD_SIZES.find((s) => `${s.boardWidth}x${s.boardHeight}` === e.target.value);
+                  if (size) {
+                    setSingleOptions({ ...singleOptions, boardWidth: size.boardWidth, boardHeight: size.boardHeight });
+                  }
+                }}
+              >
+                {BOARD_SIZES.map((s) => (
+                  <option key={s.label} value={`${s.boardWidth}x${s.boardHeight}`}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>Play As</span>
+              <select
+                value={singleOptions.humanRole}
+                onChange={(e) => setSingleOptions({ ...singleOptions, humanRole: e.target.value as PlayerRole })}
+              >
+                <option value="X">X (moves first)</option>
+                <option value="O">O</option>
+              </select>
+            </label>
+            <div className="join-dialog-buttons">
+              <button className="join-dialog-button" onClick={startSingleGame}>
+                Start
+              </button>
+              <button
+                className="join-dialog-button cancel"
+                onClick={() => setSingleGameDialog(false)}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
 
-        {Array.from({ length: BOARD_HEIGHT }).map((_, i) =>
-          Array.from({ length: BOARD_WIDTH }).map((_, j) => {
-            const x = j * CELL_SIZE;
-            const y = i * CELL_SIZE;
-            return (
-              <div
-                key={`${i}-${j}`}
-                className="intersection"
-                style={{ left: x - 11, top: y - 13 }}
+      {/* Host-room dialog */}
+      {hostGameDialog && (
+        <div className="join-dialog-overlay">
+          <div className="join-dialog-box">
+            <h2>Room Settings</h2>
+            <label className="settings-field">
+              <span>Board Size</span>
+              <select
+                value={hostSettings.infinite ? "infinite" : `${hostSettings.boardWidth}x${hostSettings.boardHeight}`}
+                onChange={(e) => {
+                  if (e.target.value === "infinite") {
+                    setHostSettings({ ...hostSettings, infinite: true, renju: false });
+                    return;
+                  }
+                  const size = BOARD_SIZES.find((s) => `${s.boardWidth}x${s.boardHeight}` === e.target.value);
+                  if (size) {
+                    setHostSettings({ ...hostSettings, infinite: false, boardWidth: size.boardWidth, boardHeight: size.boardHeight });
+                  }
+                }}
+              >
+                {BOARD_SIZES.map((s) => (
+                  <option key={s.label} value={`${s.boardWidth}x${s.boardHeight}`}>
+                    {s.label}
+                  </option>
+                ))}
+                <option value="infinite">Infinite (no edges)</option>
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>Win Length</span>
+              <select
+                value={hostSettings.winLength}
+                onChange={(e) => setHostSettings({ ...hostSettings, winLength: Number(e.target.value) })}
+              >
+                {WIN_LENGTHS.map((n) => (
+                  <option key={n} value={n}>
+                    {n} in a row
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>Opening</span>
+              <select
+                value={hostSettings.opening}
+                onChange={(e) => setHostSettings({ ...hostSettings, opening: e.target.value as OpeningRule })}
+              >
+                {OPENING_RULES.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>Time Control</span>
+              <select
+                value={TIME_CONTROLS.findIndex((t) => JSON.stringify(t.value) === JSON.stringify(hostSettings.timeControl))}
+                onChange={(e) => setHostSettings({ ...hostSettings, timeControl: TIME_CONTROLS[Number(e.target.value)].value })}
+              >
+                {TIME_CONTROLS.map((t, idx) => (
+                  <option key={t.label} value={idx}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>Takebacks</span>
+              <select
+                value={TAKEBACK_OPTIONS.findIndex((t) => t.value === hostSettings.takebacks)}
+                onChange={(e) => setHostSettings({ ...hostSettings, takebacks: TAKEBACK_OPTIONS[Number(e.target.value)].value })}
+              >
+                {TAKEBACK_OPTIONS.map((t, idx) => (
+                  <option key={t.label} value={idx}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-field">
+              <span>Match</span>
+              <select
+                value={SERIES_OPTIONS.findIndex((o) => o.value === hostSettings.seriesLength)}
+                onChange={(e) => setHostSettings({ ...hostSettings, seriesLength: SERIES_OPTIONS[Number(e.target.value)].value })}
+              >
+                {SERIES_OPTIONS.map((o, idx) => (
+                  <option key={o.label} value={idx}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={hostSettings.blockedEnds}
+                onChange={(e) => setHostSettings({ ...hostSettings, blockedEnds: e.target.checked })}
               />
-            );
-          })
-        )}
-      </div>
+              <span>Blocked at both ends doesn't win</span>
+            </label>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={hostSettings.noOverline}
+                onChange={(e) => setHostSettings({ ...hostSettings, noOverline: e.target.checked })}
+              />
+              <span>Exactly {hostSettings.winLength} (no overlines)</span>
+            </label>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={hostSettings.renju}
+                disabled={hostSettings.infinite}
+                onChange={(e) => setHostSettings({ ...hostSettings, renju: e.target.checked })}
+              />
+              <span>Renju (X can't play double-three, double-four or overline)</span>
+            </label>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={hostSettings.isPublic}
+                onChange={(e) => setHostSettings({ ...hostSettings, isPublic: e.target.checked })}
+              />
+              <span>List in public games</span>
+            </label>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={hostSettings.rated}
+                onChange={(e) => setHostSettings({ ...hostSettings, rated: e.target.checked })}
+              />
+              <span>Rated (results change both players' ratings)</span>
+            </label>
+            <label className="settings-field">
+              <span>Password</span>
+              <input
+                type="password"
+                value={hostPassword}
+                maxLength={MAX_PASSWORD_LENGTH}
+                onChange={(e) => setHostPassword(e.target.value)}
+                placeholder="Optional"
+              />
+            </label>
+            {hostError && <div className="join-error">{hostError}</div>}
+            <div className="join-dialog-buttons">
+              <button className="join-dialog-button" onClick={createRoom}>
+                Create
+              </button>
+              <button
+                className="join-dialog-button cancel"
+                onClick={() => setHostGameDialog(false)}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* Join-room dialog */}
       {joinGameDialog && (
@@ -154,6 +492,15 @@ export default function Home() {
               onChange={(e) => setUserRoomCode(e.target.value)}
               placeholder="Room Code"
             />
+            {needsPassword && (
+              <input
+                type="password"
+                value={joinPassword}
+                maxLength={MAX_PASSWORD_LENGTH}
+                onChange={(e) => setJoinPassword(e.target.value)}
+                placeholder="Password"
+              />
+            )}
             {joinError && <div className="join-error">{joinError}</div>}
             <div className="join-dialog-buttons">
               <button className="join-dialog-button" onClick={connectToRoom}>
@@ -170,6 +517,38 @@ export default function Home() {
         </div>
       )}
 
+      {/* Public lobby */}
+      {lobbyDialog && (
+        <div className="join-dialog-overlay">
+          <div className="join-dialog-box lobby-dialog">
+            <h2>Public Games</h2>
+            <Lobby onJoin={joinFromLobby} />
+            {joinError && <div className="join-error">{joinError}</div>}
+            <div className="join-dialog-buttons">
+              <button
+                className="join-dialog-button cancel"
+                onClick={() => setLobbyDialog(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {searching && (
+        <div className="overlay-backdrop">
+          <div className="overlay-dialog">
+            <h2>Finding an opponent...</h2>
+            <p>You'll be taken to the room as soon as someone is found.</p>
+            <div className="spinner" />
+            <button className="join-dialog-button cancel search-cancel" onClick={cancelSearch}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {loadingBackend && (
       <div className="overlay-backdrop">
         <div className="overlay-dialog">
@@ -0,0 +1,97 @@
+// Leaderboard.tsx
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { fetchJson } from "./api";
+import Pager from "./Pager";
+import type { LeaderboardEntry, LeaderboardSort, Page } from "../../shared/protocol";
+
+const PAGE_SIZE = 20;
+
+export default function Leaderboard() {
+  const navigate = useNavigate();
+
+  const [sort, setSort] = useState<LeaderboardSort>("rating");
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<Page<LeaderboardEntry> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const ownId = localStorage.getItem("publicId");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchJson<Page<LeaderboardEntry>>(`/leaderboard?sort=${sort}&page=${page}&limit=${PAGE_SIZE}`)
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(data);
+        setError(null);
+      })
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [sort, page]);
+
+  const changeSort = (next: LeaderboardSort) => {
+    setSort(next);
+    setPage(1);
+  };
+
+  return (
+    <div className="app-container">
+      {/* Dashboard */}
+      <div className="dashboard">
+        <button className="dashboard-menu-button" onClick={() => navigate("/")}>
+          Main Menu
+        </button>
+      </div>
+
+      <div className="stats-page">
+        <div className="stats-header">
+          <h2>Leaderboard</h2>
+          <div className="stats-tabs">
+            <button className={sort === "rating" ? "active" : ""} onClick={() => changeSort("rating")}>
+              Rating
+            </button>
+            <button className={sort === "wins" ? "active" : ""} onClick={() => changeSort("wins")}>
+              Wins
+            </button>
+          </div>
+          {ownId && <Link to={`/players/${ownId}`}>My profile</Link>}
+        </div>
+
+        {error && <div className="join-error">{error}</div>}
+        {entries && entries.items.length === 0 && <p className="stats-empty">No rated games played yet.</p>}
+        {entries && entries.items.length > 0 && (
+          <>
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Player</th>
+                  <th>Rating</th>
+                  <th>Played</th>
+                  <th>W / L / D</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.items.map((entry) => (
+                  <tr key={entry.playerId} className={entry.playerId === ownId ? "own" : ""}>
+                    <td>{entry.rank}</td>
+                    <td>
+                      <Link to={`/players/${entry.playerId}`}>{entry.name || "Unnamed"}</Link>
+                    </td>
+                    <td>{entry.rating}</td>
+                    <td>{entry.played}</td>
+                    <td>
+                      {entry.wins} / {entry.losses} / {entry.draws}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <Pager page={entries} onChange={setPage} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
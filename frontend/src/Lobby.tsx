@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { socket } from "./socket";
+import { describeBoard, describeRules, describeTimeControl } from "./roomSettings";
+import type { LobbyRoom } from "../../shared/protocol";
+
+// Live list of public rooms waiting for an opponent; the server pushes every change
+export default function Lobby({ onJoin }: { onJoin: (roomId: string, hasPassword: boolean) => void }) {
+  const [rooms, setRooms] = useState<LobbyRoom[]>([]);
+
+  useEffect(() => {
+    const subscribe = () => {
+      socket.emit("subscribe-lobby", {}, (res) => {
+        if (res.success) setRooms(res.rooms);
+      });
+    };
+    const handleUpdated = (room: LobbyRoom) =>
+      setRooms((prev) => [...prev.filter((r) => r.roomId !== room.roomId), room]);
+    const handleRemoved = ({ roomId }: { roomId: string }) =>
+      setRooms((prev) => prev.filter((r) => r.roomId !== roomId));
+
+    subscribe();
+    socket.on("lobby-room-updated", handleUpdated);
+    socket.on("lobby-room-removed", handleRemoved);
+    socket.io.on("reconnect", subscribe);
+    return () => {
+      socket.emit("unsubscribe-lobby", {});
+      socket.off("lobby-room-updated", handleUpdated);
+      socket.off("lobby-room-removed", handleRemoved);
+      socket.io.off("reconnect", subscribe);
+    };
+  }, []);
+
+  if (rooms.length === 0) {
+    return <p className="lobby-empty">No open games right now. Host one!</p>;
+  }
+
+  // Newest first
+  const sorted = [...rooms].sort((a, b) => b.listedAt - a.listedAt);
+
+  return (
+    <ul className="lobby-list">
+      {sorted.map((room) => (
+        <li key={room.roomId} className="lobby-room">
+          <div className="lobby-room-info">
+            <span className="lobby-host">
+              {room.hostName || "Unnamed host"} <small>plays {room.hostRole}</small>
+            </span>
+            <span className="lobby-rules">
+              {describeBoard(room.settings)} · {describeRules(room.settings)}
+            </span>
+            <span className="lobby-rules">
+              {describeTimeControl(room.settings.timeControl)}
+              {room.settings.seriesLength && ` · best of ${room.settings.seriesLength}`}
+              {room.settings.rated ? " · rated" : " · casual"}
+              {room.hasPassword && " · password"}
+            </span>
+          </div>
+          <button className="join-dialog-button" onClick={() => onJoin(room.roomId, room.hasPassword)}>
+            Join
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
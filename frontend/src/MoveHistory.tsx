@@ -0,0 +1,56 @@
+// MoveHistory.tsx
+import type { ReactNode } from "react";
+import { coordinate, type Move } from "./notation";
+
+interface MoveHistoryProps {
+  moves: Move[];
+  boardHeight: number;
+  viewPly: number | null; // number of moves shown, null = latest position
+  onSelect: (ply: number | null) => void;
+  children?: ReactNode; // extra actions shown under the controls
+}
+
+export default function MoveHistory({ moves, boardHeight, viewPly, onSelect, children }: MoveHistoryProps) {
+  const current = viewPly ?? moves.length;
+
+  // Stepping onto the last move goes back to following the latest position
+  const go = (ply: number) => onSelect(ply >= moves.length ? null : Math.max(0, ply));
+
+  return (
+    <div className="history-panel">
+      <div className="history-title">
+        Moves
+        {viewPly !== null && <span className="history-replay">Reviewing</span>}
+      </div>
+
+      <ol className="history-moves">
+        {moves.map((move, idx) => (
+          <li
+            key={idx}
+            className={`history-move ${move.role === "X" ? "red" : "blue"} ${idx + 1 === current ? "current" : ""}`}
+            onClick={() => go(idx + 1)}
+          >
+            {idx + 1}. {move.role} {coordinate(move, boardHeight)}
+          </li>
+        ))}
+      </ol>
+
+      <div className="history-controls">
+        <button onClick={() => go(0)} disabled={current === 0} title="First">
+          ⏮
+        </button>
+        <button onClick={() => go(current - 1)} disabled={current === 0} title="Previous">
+          ◀
+        </button>
+        <button onClick={() => go(current + 1)} disabled={current >= moves.length} title="Next">
+          ▶
+        </button>
+        <button onClick={() => go(moves.length)} disabled={current >= moves.length} title="Last">
+          ⏭
+        </button>
+      </div>
+
+      {children && <div className="history-actions">{children}</div>}
+    </div>
+  );
+}
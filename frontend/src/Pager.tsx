@@ -0,0 +1,20 @@
+import type { Page } from "../../shared/protocol";
+
+// Previous / next controls for a paginated API response
+export default function Pager({ page, onChange }: { page: Page<unknown>; onChange: (page: number) => void }) {
+  const pages = Math.max(1, Math.ceil(page.total / page.limit));
+
+  return (
+    <div className="pager">
+      <button disabled={page.page <= 1} onClick={() => onChange(page.page - 1)}>
+        Previous
+      </button>
+      <span>
+        Page {page.page} of {pages}
+      </span>
+      <button disabled={page.page >= pages} onClick={() => onChange(page.page + 1)}>
+        Next
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+// Profile.tsx
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { fetchJson } from "./api";
+import { describeResult } from "./gameResult";
+import Pager from "./Pager";
+import type { GameSummary, Page, PlayerRole, PlayerStats } from "../../shared/protocol";
+
+const PAGE_SIZE = 10;
+
+// Win / Loss / Draw from the point of view of the player on the given side
+function outcome(game: GameSummary, role: PlayerRole) {
+  if (!game.result.winner) return "Draw";
+  return game.result.winner === role ? "Win" : "Loss";
+}
+
+export default function Profile() {
+  const navigate = useNavigate();
+  const { playerId = "" } = useParams();
+
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [games, setGames] = useState<Page<GameSummary> | null>(null);
+  const [page, setPage] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPage(1);
+    fetchJson<PlayerStats>(`/players/${playerId}`)
+      .then((data) => {
+        if (cancelled) return;
+        setStats(data);
+        setError(null);
+      })
+      .catch((err: Error) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchJson<Page<GameSummary>>(`/players/${playerId}/games?page=${page}&limit=${PAGE_SIZE}`)
+      .then((data) => !cancelled && setGames(data))
+      .catch(() => !cancelled && setGames(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId, page]);
+
+  return (
+    <div className="app-container">
+      {/* Dashboard */}
+      <div className="dashboard">
+        <button className="dashboard-menu-button" onClick={() => navigate("/")}>
+          Main Menu
+        </button>
+        <button className="dashboard-button new-game" onClick={() => navigate("/leaderboard")}>
+          Leaderboard
+        </button>
+      </div>
+
+      <div className="stats-page">
+        {error && <div className="join-error">{error}</div>}
+
+        {stats && (
+          <>
+            <div className="stats-header">
+              <h2>{stats.name || "Unnamed player"}</h2>
+              <span className="stats-rating">{stats.rating}</span>
+            </div>
+            <div className="stats-summary">
+              <span>{stats.played} rated games</span>
+              <span>{stats.wins} wins</span>
+              <span>{stats.losses} losses</span>
+              <span>{stats.draws} draws</span>
+            </div>
+          </>
+        )}
+
+        {games && games.items.length === 0 && <p className="stats-empty">No finished games yet.</p>}
+        {games && games.items.length > 0 && (
+          <>
+            <h3>Recent games</h3>
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Opponent</th>
+                  <th>Side</th>
+                  <th>Result</th>
+                  <th>Moves</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {games.items.map((game) => {
+                  const role: PlayerRole = game.players.X.playerId === playerId ? "X" : "O";
+                  const opponent = game.players[role === "X" ? "O" : "X"];
+                  const winnerName = game.result.winner ? game.players[game.result.winner].name : undefined;
+                  return (
+                    <tr key={game.id}>
+                      <td>{new Date(game.finishedAt).toLocaleDateString()}</td>
+                      <td>
+                        {opponent.playerId ? (
+                          <Link to={`/players/${opponent.playerId}`}>{opponent.name || "Unnamed"}</Link>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td className={role === "X" ? "red" : "blue"}>{role}</td>
+                      <td title={describeResult(game.result, winnerName)}>
+                        {outcome(game, role)}
+                        {game.rated ? "" : " (casual)"}
+                      </td>
+                      <td>{game.moveCount}</td>
+                      <td>
+                        <Link to={`/viewer?game=${game.id}`}>Replay</Link>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <Pager page={games} onChange={setPage} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
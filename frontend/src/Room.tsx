@@ -1,35 +1,40 @@
 // Room.tsx
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { useParams, useLocation, useNavigate } from "react-router-dom";
 import { socket } from "./socket"; // assuming your socket instance
+import {
+  DEFAULT_SETTINGS,
+  boardView,
+  describeBoard,
+  describeRules,
+  describeTimeControl,
+  formatClock,
+  initialOpening,
+  normalizeMoves,
+  pointKey,
+  stonesFromMoves,
+  type ClockState,
+  type OpeningStage,
+  type PlayerRole,
+  type RoomSettings,
+  type Stones,
+} from "./roomSettings";
+import { describeResult, type GameResult } from "./gameResult";
+import { boardTag, exportRecord, resultToken, type Move } from "./notation";
+import MoveHistory from "./MoveHistory";
+import Board from "./Board";
+import {
+  MAX_CHAT_LENGTH,
+  MAX_NAME_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  type GameOverPayload,
+  type MoveMadePayload,
+  type SeriesState,
+  type SyncState,
+} from "../../shared/protocol";
 
-type PlayerRole = "X" | "O";
 type Point = { row: number; col: number };
 
-interface SyncState {
-  board: PlayerRole[][];
-  turnNumber: number;
-  winner: PlayerRole;
-  line?: Point[];
-  names: Record<string,string>;
-  scores: Record<string,number>;
-  roleMap: Record<PlayerRole, string>;
-  messages: { sender: string; text: string }[];
-}
-
-interface MoveMadePayload {
-  row: number;
-  col: number;
-  role: PlayerRole;
-  turnNumber: number;
-  winner?: PlayerRole
-  line?: Point[];
-}
-
-const BOARD_WIDTH = 18;
-const BOARD_HEIGHT = 25;
-const CELL_SIZE = 30;
-
 export default function Room() {
   const params = useParams<{ roomId: string }>();
   const location = useLocation();
@@ -38,16 +43,18 @@ export default function Room() {
 
 
   // --- Game state ---
-  const [board, setBoard] = useState<PlayerRole[][]>(
-    Array.from({ length: BOARD_HEIGHT }, () => Array(BOARD_WIDTH).fill(null))
-  );
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_SETTINGS);
+  const [stones, setStones] = useState<Stones>({});
   const [turnNumber, setTurnNumber] = useState<number | null>(null);
   const [playerRole, setPlayerRole] = useState<"X" | "O" | null>(null);
   const [roomId, setRoomId] = useState<string | null>(null);
-  const [clientId, setClientId] = useState<string | null>(null);
+  const [publicId, setPublicId] = useState<string | null>(null); // how the server identifies us to others
   const [isHost, setIsHost] = useState(false);
+  const [isSpectator, setIsSpectator] = useState(false);
+  const [spectatorCount, setSpectatorCount] = useState(0);
   const [roomFull, setRoomFull] = useState(false);
   const [endGame, setEndGame] = useState(false);
+  const [result, setResult] = useState<GameResult | null>(null);
   const [winningLine, setWinningLine] = useState<Point[] | null>(null);
   const [localName, setLocalName] = useState("");   // stores what user types
   const [names, setNames] = useState<Record<string, string>>({});
@@ -60,6 +67,9 @@ export default function Room() {
   const [flashMessage, setFlashMessage] = useState<string | null>(null);
   const [copied, setCopied] = useState<"code" | "link" | null>(null);
   const [newGameDialog, setNewGameDialog] = useState<"proposer" | "receiver" | null>(null);
+  const [takebackDialog, setTakebackDialog] = useState<"proposer" | "receiver" | null>(null);
+  const [drawDialog, setDrawDialog] = useState<"proposer" | "receiver" | null>(null);
+  const [resignDialog, setResignDialog] = useState(false);
   //const [joinGameDialog, setJoinGameDialog] = useState(false);
   //const [userRoomCode, setUserRoomCode] = useState<string>("");
   //const [joinError, setJoinError] = useState<string | null>(null);
@@ -70,8 +80,44 @@ export default function Room() {
   const [opponentStatus, setOpponentStatus] = useState<"connected" | "disconnected" | "left" | null>(null);
   const [messages, setMessages] = useState<{ sender: string; text: string }[]>([]);
   const [newMessage, setNewMessage] = useState<string>("");
+  const [spectatorMessages, setSpectatorMessages] = useState<{ sender: string; text: string }[]>([]);
+  const [chatTab, setChatTab] = useState<"players" | "spectators">("players");
   //const [loadingBackend, setLoadingBackend] = useState(isDev ? true : false);
   const [latestMove, setLatestMove] = useState<Point | null>(null);
+  const [moves, setMoves] = useState<Move[]>([]);
+  const [viewPly, setViewPly] = useState<number | null>(null); // moves shown while reviewing, null = live
+  const [forbidden, setForbidden] = useState<Point[]>([]); // Renju points X may not play
+  const [opening, setOpening] = useState<OpeningStage | null>(null);
+  const [takebacksUsed, setTakebacksUsed] = useState<Record<string, number>>({});
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const [series, setSeries] = useState<SeriesState | null>(null);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [clockReceivedAt, setClockReceivedAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [opponentDeadline, setOpponentDeadline] = useState<number | null>(null); // when a disconnected opponent loses their seat
+  const [locked, setLocked] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<string | null>(null); // why the password dialog is open
+  const [roomPassword, setRoomPassword] = useState("");
+
+  // Join from a pasted link or a refresh; a protected room asks for its password first
+  const joinFromUrl = useCallback((roomIdParam: string, password?: string) => {
+    socket.emit("join-room", { roomId: roomIdParam, password }, (ack: any) => {
+      if (!ack.success) {
+        if (ack.code === "password-required") return setPasswordPrompt(ack.message);
+        return setError(ack.message);
+      }
+
+      setPasswordPrompt(null);
+      setRoomId(ack.roomId);
+      setPlayerRole(ack.role);
+      setPublicId(ack.publicId);
+      setShowNameDialog(!ack.nameSet);
+      setIsSpectator(!!ack.spectator);
+      if (ack.spectator) setChatTab("spectators");
+
+      if (!ack.isHost) setOpponentStatus("connected");
+    });
+  }, []);
 
   useEffect(() => {
     const roomIdParam = params.roomId;
@@ -87,49 +133,77 @@ export default function Room() {
       // In-app button navigation
       const state = location.state as {
         isHost: boolean;
-        clientId: string;
-        playerRole: PlayerRole;
+        publicId: string;
+        playerRole: PlayerRole | null;
         nameSet?: boolean;
+        spectator?: boolean;
+        matched?: boolean;
       };
 
       setRoomId(roomIdParam);
-      setClientId(state.clientId);
+      setPublicId(state.publicId);
       setPlayerRole(state.playerRole);
       setIsHost(state.isHost);
+      setIsSpectator(!!state.spectator);
+      if (state.spectator) setChatTab("spectators");
       setShowNameDialog(!state.nameSet);
 
       socket.emit("sync-request", { roomId: roomIdParam }, (res: any) => {
         if (!res.success) setError(res.message);
       });
 
-      if (!state.isHost) setOpponentStatus("connected");
+      // Matched players are seated together, so the host's opponent is already here
+      if (!state.isHost || state.matched) setOpponentStatus("connected");
+      if (state.matched) setRoomFull(true);
       window.history.replaceState(null, document.title, window.location.href);
     } else {
       // Refresh or direct URL paste
-      socket.emit("join-room", { roomId: roomIdParam }, (ack: any) => {
-        if (!ack.success) return setError(ack.message);
+      joinFromUrl(roomIdParam);
+    }
+  }, [params.roomId, location.state, joinFromUrl]);
 
-        setRoomId(ack.roomId);
-        setPlayerRole(ack.role);
-        setClientId(ack.clientId);
-        setShowNameDialog(!ack.nameSet);
+  // --- Rejoin after the connection drops (e.g. a server restart) ---
+  useEffect(() => {
+    if (!roomId) return;
 
-        if (!ack.isHost) setOpponentStatus("connected");
+    const handleReconnect = () => {
+      socket.emit("join-room", { roomId }, (ack: { success: boolean; message?: string }) => {
+        if (!ack.success) setError(ack.message ?? "Failed to rejoin room");
       });
-    }
-  }, [params.roomId, location.state]);
-  
+    };
+
+    socket.io.on("reconnect", handleReconnect);
+    return () => {
+      socket.io.off("reconnect", handleReconnect);
+    };
+  }, [roomId]);
+
   // --- Receive sync state ---
   useEffect(() => {
     const handleSyncState = (state: SyncState) => {
-      setBoard(state.board);
+      setStones(state.stones);
       setTurnNumber(state.turnNumber);
-      setEndGame(!!state.winner);
+      setEndGame(!!state.result);
+      setResult(state.result);
+      setMoves(state.moves);
+      setViewPly(null);
       setWinningLine(state.line ?? null);
       setNames(state.names);
       setScores(state.scores);
       setRoleMap(state.roleMap);
       setMessages(state.messages);
+      setSettings(state.settings);
+      setForbidden(state.forbidden);
+      setOpening(state.opening);
+      setTakebacksUsed(state.takebacksUsed);
+      setClock(state.clock);
+      setClockReceivedAt(Date.now());
+      setSpectatorCount(state.spectatorCount);
+      setSpectatorMessages(state.spectatorMessages);
+      setSeries(state.series);
+      setRatings(state.ratings);
+      setOpponentDeadline(state.graceMs === null ? null : Date.now() + state.graceMs);
+      setLocked(state.locked);
     };
   
     socket.on("sync-state", handleSyncState);
@@ -180,26 +254,31 @@ export default function Room() {
 
   // --- Moves from server ---
   useEffect(() => {
-    const handleMove = (payload: MoveMadePayload & { scores?: Record<string, number> }) => {
-      const { row, col, role, turnNumber: serverTurn, winner, line, scores: updatedScores } = payload;
-  
-      setBoard(prev => {
-        const newBoard = prev.map(r => [...r]);
-        newBoard[row][col] = role;
-        return newBoard;
-      });
+    const handleMove = (payload: MoveMadePayload | GameOverPayload) => {
+      const { row, col, role, turnNumber: serverTurn } = payload;
+
+      if (row !== undefined && col !== undefined && role) {
+        setStones(prev => ({ ...prev, [pointKey(row, col)]: role }));
+        setLatestMove({ row, col });
+        setMoves(prev => [...prev, { row, col, role }]);
+      }
   
       setTurnNumber(serverTurn);
-      setLatestMove({ row, col });
-  
-      if (winner) {
-        setEndGame(true);
-        setWinningLine(line ?? null);
+      setForbidden("forbidden" in payload ? payload.forbidden : []);
+
+      if (payload.clock !== undefined) {
+        setClock(payload.clock);
+        setClockReceivedAt(Date.now());
       }
-  
-      // Update scores if provided
-      if (updatedScores) {
-        setScores(updatedScores);
+
+      if ("reason" in payload) {
+        setEndGame(true);
+        setResult({ winner: payload.winner, reason: payload.reason });
+        setWinningLine(payload.line.length ? payload.line : null);
+        setDrawDialog(null);
+        setScores(payload.scores);
+        setSeries(payload.series);
+        setRatings(payload.ratings);
       }
     };
   
@@ -226,11 +305,22 @@ export default function Room() {
 
   // Hanldle rejecting, accepting new game
   useEffect(() => {
-    const handleNewGameStarted = () => {
-      setBoard(Array.from({ length: BOARD_HEIGHT }, () => Array(BOARD_WIDTH).fill(null)));
+    // In a match the players swap colours every game, so pick up our new role
+    const handleNewGameStarted = (payload: { roleMap: Record<PlayerRole, string>; series: SeriesState | null }) => {
+      const ownRole = (["X", "O"] as PlayerRole[]).find((role) => payload.roleMap[role] === publicId);
+      if (ownRole) setPlayerRole(ownRole);
+      setRoleMap(payload.roleMap);
+      setSeries(payload.series);
+      setStones({});
       setTurnNumber(1);
       setEndGame(false);
+      setResult(null);
       setWinningLine(null);
+      setMoves([]);
+      setViewPly(null);
+      setForbidden([]);
+      setOpening(initialOpening(settings));
+      setTakebacksUsed({});
       setNewGameDialog(null);
     };
 
@@ -248,20 +338,24 @@ export default function Room() {
       socket.off("new-game-started", handleNewGameStarted);
       socket.off("new-game-declined", handleNewGameDeclined);
     };
-  }, [names, playerRole, roleMap]);
+  }, [names, playerRole, publicId, roleMap, settings]);
 
   // (**) When intentionally leave room, go back to default state. (**)
   useEffect(() => {
     const handleLeave = () => {
       // --- Reset all game and UI state ---
-      setBoard(Array.from({ length: BOARD_HEIGHT }, () => Array(BOARD_WIDTH).fill(null)));
+      setSettings(DEFAULT_SETTINGS);
+      setStones({});
       setTurnNumber(null);
       setPlayerRole(null);
       setRoomId(null);
       setIsHost(false);
       setRoomFull(false);
       setEndGame(false);
+      setResult(null);
       setWinningLine(null);
+      setMoves([]);
+      setViewPly(null);
       //setShowMenu(true);
       //setSelectedMenu(null);
       //setUserRoomCode("");
@@ -287,12 +381,14 @@ export default function Room() {
   useEffect(() => {
     const handleOpponentLeft = () => {
       // Clear board but keep yourself in the room
-      setBoard(Array.from({ length: BOARD_HEIGHT }, () =>
-        Array(BOARD_WIDTH).fill(null)
-      ));
+      setStones({});
       setTurnNumber(1);
       setWinningLine(null);
       setEndGame(false)
+      setResult(null);
+      setMoves([]);
+      setViewPly(null);
+      setOpening(initialOpening(settings));
       // Mark that you’re now waiting for a new opponent
       setRoomFull(false);
       setOpponentStatus("left");
@@ -302,7 +398,7 @@ export default function Room() {
     return () => {
       socket.off("opponent-intentionally-left", handleOpponentLeft);
     };
-  }, []);
+  }, [settings]);
 
   // Role Switch 
   useEffect(() => {
@@ -332,6 +428,98 @@ export default function Room() {
     };
   }, []);
 
+  // Takeback requests
+  useEffect(() => {
+    const handleTakebackRequest = () => {
+      setTakebackDialog("receiver");
+    };
+
+    const handleTakebackDeclined = () => {
+      setFlashMessage(`${names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "Your opponent"} declined the takeback.`);
+      setTimeout(() => setFlashMessage(null), 3000);
+      setTakebackDialog(null);
+    };
+
+    // The server follows up with sync-state carrying the rolled-back board
+    const handleTakebackAccepted = () => {
+      setTakebackDialog(null);
+      setLatestMove(null);
+      setFlashMessage("Move taken back.");
+      setTimeout(() => setFlashMessage(null), 3000);
+    };
+
+    socket.on("takeback-request", handleTakebackRequest);
+    socket.on("takeback-declined", handleTakebackDeclined);
+    socket.on("takeback-accepted", handleTakebackAccepted);
+    return () => {
+      socket.off("takeback-request", handleTakebackRequest);
+      socket.off("takeback-declined", handleTakebackDeclined);
+      socket.off("takeback-accepted", handleTakebackAccepted);
+    };
+  }, [names, playerRole, roleMap]);
+
+  // Draw offers
+  useEffect(() => {
+    const handleDrawOffer = () => {
+      setDrawDialog("receiver");
+    };
+
+    const handleDrawDeclined = () => {
+      setFlashMessage(`${names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "Your opponent"} declined the draw.`);
+      setTimeout(() => setFlashMessage(null), 3000);
+      setDrawDialog(null);
+    };
+
+    socket.on("draw-offer", handleDrawOffer);
+    socket.on("draw-declined", handleDrawDeclined);
+    return () => {
+      socket.off("draw-offer", handleDrawOffer);
+      socket.off("draw-declined", handleDrawDeclined);
+    };
+  }, [names, playerRole, roleMap]);
+
+  // --- Clock ---
+  useEffect(() => {
+    const handleClockUpdated = ({ clock }: { clock: ClockState | null }) => {
+      setClock(clock);
+      setClockReceivedAt(Date.now());
+    };
+
+    socket.on("clock-updated", handleClockUpdated);
+    return () => {
+      socket.off("clock-updated", handleClockUpdated);
+    };
+  }, []);
+
+  // Tick the display while a clock or the reconnect countdown is running
+  useEffect(() => {
+    if (!clock?.running && opponentDeadline === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [clock, opponentDeadline]);
+
+  // Opening (Swap / Swap2)
+  useEffect(() => {
+    const handleOpeningUpdated = ({ opening }: { opening: OpeningStage | null }) => {
+      setOpening(opening);
+    };
+
+    // Colours are settled: same dialog as an accepted side switch
+    const handleOpeningFinished = ({ newRole, roleMap }: { newRole: PlayerRole; roleMap: Record<PlayerRole, string> }) => {
+      setOpening(null);
+      setPlayerRole(newRole);
+      setRoleMap(roleMap);
+      setSwitchDialog("accepted");
+    };
+
+    socket.on("opening-updated", handleOpeningUpdated);
+    socket.on("opening-finished", handleOpeningFinished);
+    return () => {
+      socket.off("opening-updated", handleOpeningUpdated);
+      socket.off("opening-finished", handleOpeningFinished);
+    };
+  }, []);
+
   // --- Socket Listener ---
   useEffect(() => {
     socket.on("chat-message", ({ sender, text }: { sender: string; text: string }) => {
@@ -343,24 +531,131 @@ export default function Room() {
     };
   }, []);
 
+  // --- Reconnect grace period, kicks and the room lock ---
+  // A disconnected opponent keeps their seat for a while; after that they forfeit and the seat opens up.
+  useEffect(() => {
+    const handleDisconnected = ({ graceMs }: { graceMs: number }) => setOpponentDeadline(Date.now() + graceMs);
+    const handleRejoined = () => setOpponentDeadline(null);
+    const handleTimedOut = ({ forfeited }: { forfeited: boolean }) => {
+      setOpponentDeadline(null);
+      setRoomFull(false);
+      setOpponentStatus("left");
+      setFlashMessage(forfeited ? "Opponent did not reconnect and forfeits the game" : "Opponent did not reconnect");
+      setTimeout(() => setFlashMessage(null), 3000);
+    };
+    const handleKicked = () => setError("You were removed from the room by the host");
+    const handleLockChanged = ({ locked }: { locked: boolean }) => setLocked(locked);
+
+    socket.on("opponent-disconnected", handleDisconnected);
+    socket.on("player-joined", handleRejoined);
+    socket.on("opponent-timed-out", handleTimedOut);
+    socket.on("kicked", handleKicked);
+    socket.on("room-lock-changed", handleLockChanged);
+    return () => {
+      socket.off("opponent-disconnected", handleDisconnected);
+      socket.off("player-joined", handleRejoined);
+      socket.off("opponent-timed-out", handleTimedOut);
+      socket.off("kicked", handleKicked);
+      socket.off("room-lock-changed", handleLockChanged);
+    };
+  }, []);
+
+  // --- Idle expiry ---
+  // The server closes rooms nobody has used for a while and warns shortly before
+  useEffect(() => {
+    const handleExpiring = ({ expiresInMs }: { expiresInMs: number }) => {
+      setFlashMessage(`This room will close in ${Math.ceil(expiresInMs / 1000)}s unless someone makes a move or chats`);
+      setTimeout(() => setFlashMessage(null), 5000);
+    };
+    const handleExpired = () => setError("This room was closed because nobody used it for a while. Start a new game from the menu!");
+
+    socket.on("room-expiring", handleExpiring);
+    socket.on("room-expired", handleExpired);
+    return () => {
+      socket.off("room-expiring", handleExpiring);
+      socket.off("room-expired", handleExpired);
+    };
+  }, []);
+
+  // --- Flood protection ---
+  // The server bans clients that keep hitting its rate limits; a refused
+  // reconnect (socket.active is false) means the ban is still running.
+  useEffect(() => {
+    const banMessage = (retryAfterMs: number) =>
+      `Too many requests. Try again in ${Math.max(1, Math.ceil(retryAfterMs / 60000))} min.`;
+    const handleBanned = ({ retryAfterMs }: { retryAfterMs: number }) => setError(banMessage(retryAfterMs));
+    const handleConnectError = (err: Error & { data?: { retryAfterMs?: number } }) => {
+      if (!socket.active) setError(banMessage(err.data?.retryAfterMs ?? 0));
+    };
+
+    socket.on("banned", handleBanned);
+    socket.on("connect_error", handleConnectError);
+    return () => {
+      socket.off("banned", handleBanned);
+      socket.off("connect_error", handleConnectError);
+    };
+  }, []);
+
+  // --- Spectators ---
+  useEffect(() => {
+    const handleSpectatorsUpdated = ({ count }: { count: number }) => setSpectatorCount(count);
+    const handleSpectatorMessage = (message: { sender: string; text: string }) =>
+      setSpectatorMessages((prev) => [...prev, message]);
+
+    socket.on("spectators-updated", handleSpectatorsUpdated);
+    socket.on("spectator-chat-message", handleSpectatorMessage);
+    return () => {
+      socket.off("spectators-updated", handleSpectatorsUpdated);
+      socket.off("spectator-chat-message", handleSpectatorMessage);
+    };
+  }, []);
+
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages]);
+  }, [messages, spectatorMessages, chatTab]);
 
   // --- Make move ---
   const handleClick = (row: number, col: number) => {
     console.log("Name:", name, "Turn:", turnNumber, "Role:", playerRole, "EndGame:", endGame);
     if (!roomId || endGame) return;
     if (!playerRole || turnNumber === null) return;
+    if (viewPly !== null) return; // reviewing past positions
+
+    if (opening) {
+      if ((opening === "place-three" || opening === "place-two") && isOpeningActor) {
+        socket.emit("opening-place", { roomId, row, col }, (res: { success: boolean; message?: string }) => {
+          if (!res.success) {
+            setFlashMessage(res.message ?? "Stone rejected");
+            setTimeout(() => setFlashMessage(null), 3000);
+          }
+        });
+      }
+      return;
+    }
 
     const isXTurn = turnNumber % 2 === 1;
 
     if ((isXTurn && playerRole !== "X") || (!isXTurn && playerRole !== "O")) return;
 
-    socket.emit("make-move", { roomId, row, col, role: playerRole }, (res: any) => {
-      if (!res.success) console.log("Move rejected:", res.message);
+    socket.emit("make-move", { roomId, row, col, role: playerRole }, (res: { success: boolean; message?: string }) => {
+      if (!res.success) {
+        console.log("Move rejected:", res.message);
+        setFlashMessage(res.message ?? "Move rejected");
+        setTimeout(() => setFlashMessage(null), 3000);
+      }
+    });
+  };
+
+  // --- Opening colour choice ---
+  const chooseOpening = (choice: PlayerRole | "place-two") => {
+    if (!roomId) return;
+    socket.emit("opening-choose", { roomId, choice }, (res: { success: boolean; message?: string }) => {
+      if (!res.success) {
+        setFlashMessage(res.message ?? "Choice rejected");
+        setTimeout(() => setFlashMessage(null), 3000);
+      }
     });
   };
 
@@ -386,6 +681,90 @@ export default function Room() {
     setNewGameDialog(null);
   };
 
+  // --- Takeback ---
+  const handleTakebackClick = () => {
+    if (!roomId || endGame) return;
+    socket.emit("propose-takeback", { roomId }, (res: { success: boolean; message?: string }) => {
+      if (!res.success) {
+        setFlashMessage(res.message ?? "Takeback not possible");
+        setTimeout(() => setFlashMessage(null), 3000);
+        return;
+      }
+      setTakebackDialog("proposer");
+    });
+  };
+
+  const respondTakeback = (accept: boolean) => {
+    if (!roomId) return;
+
+    socket.emit("respond-takeback", { roomId, accept });
+    setTakebackDialog(null);
+  };
+
+  // --- Resign ---
+  const handleResign = () => {
+    if (!roomId) return;
+    socket.emit("resign", { roomId }, (res: { success: boolean; message?: string }) => {
+      if (!res.success) {
+        setFlashMessage(res.message ?? "Could not resign");
+        setTimeout(() => setFlashMessage(null), 3000);
+      }
+    });
+    setResignDialog(false);
+  };
+
+  // --- Draw ---
+  const handleOfferDraw = () => {
+    if (!roomId || endGame) return;
+    socket.emit("offer-draw", { roomId }, (res: { success: boolean; message?: string }) => {
+      if (!res.success) {
+        setFlashMessage(res.message ?? "Could not offer a draw");
+        setTimeout(() => setFlashMessage(null), 3000);
+        return;
+      }
+      setDrawDialog("proposer");
+    });
+  };
+
+  const respondDraw = (accept: boolean) => {
+    if (!roomId) return;
+
+    socket.emit("respond-draw", { roomId, accept });
+    setDrawDialog(null);
+  };
+
+  // --- Export finished game ---
+  const handleExportRecord = () => {
+    if (!roomId || !result) return;
+
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, ".");
+    const text = exportRecord(
+      {
+        Event: "Caro",
+        Site: window.location.origin,
+        Date: date,
+        Room: roomId,
+        X: names[roleMap.X] || "X",
+        O: names[roleMap.O] || "O",
+        Board: boardTag(record.boardWidth, record.boardHeight, settings.infinite),
+        WinLength: String(settings.winLength),
+        Rules: describeRules(settings),
+        TimeControl: describeTimeControl(settings.timeControl),
+        Result: resultToken(result.winner, true),
+        Termination: result.reason,
+      },
+      record.boardHeight,
+      record.moves
+    );
+
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `caro-${roomId}-${date.replace(/\./g, "")}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // --- Switch Sides ---
   const handleSwitchSides = () => {
     if (!roomId || !playerRole) return;
@@ -411,11 +790,13 @@ export default function Room() {
     }
     setNameError(null);
 
-    socket.emit("get-name", { roomId, name: newName }, (ack: { success: boolean }) => {
+    if (!roomId) return;
+
+    socket.emit("get-name", { roomId, name: newName }, (ack) => {
         if (ack.success) {
           setShowNameDialog(false);
         } else {
-          setNameError("Failed to set name");
+          setNameError(ack.message || "Failed to set name");
         }
       }
     );
@@ -424,15 +805,56 @@ export default function Room() {
   // --- Send Message ---
   const sendMessage = () => {
     const trimmed = newMessage.trim();
-    if (!trimmed || !clientId) return;
+    if (!trimmed || !publicId || !roomId) return;
 
-    socket.emit("chat-message", { roomId, text: trimmed });
+    socket.emit("chat-message", { roomId, text: trimmed }, (res) => {
+      if (!res.success) {
+        setFlashMessage(res.message);
+        setTimeout(() => setFlashMessage(null), 3000);
+      }
+    });
     setNewMessage("");
   };
 
+  // e.g. "Alice wins the match 3-1", "Match drawn 1-1"
+  const describeSeriesResult = ({ wins, winner }: SeriesState) => {
+    const [first, second] = Object.keys(names)
+      .map((id) => ({ id, wins: wins[id] ?? 0 }))
+      .sort((a, b) => b.wins - a.wins);
+    const score = `${first?.wins ?? 0}-${second?.wins ?? 0}`;
+    return winner ? `${names[winner] || "Unnamed"} wins the match ${score}` : `Match drawn ${score}`;
+  };
+
+
+  // During the opening the current X seat is the first player
+  const isOpeningActor =
+    opening === "place-three" || opening === "final-choose" ? playerRole === "X" : playerRole === "O";
+  const openingActorName =
+    names[roleMap[opening === "place-three" || opening === "final-choose" ? "X" : "O"]] ?? "Your opponent";
+  const openingStone: PlayerRole = (turnNumber ?? 1) % 2 === 1 ? "X" : "O";
+
+  // Stones shown to the player: the live board, or a past position while reviewing.
+  // The drawn area follows the live board so reviewing doesn't shrink an infinite one.
+  const displayStones = useMemo(
+    () => (viewPly === null ? stones : stonesFromMoves(moves.slice(0, viewPly))),
+    [stones, moves, viewPly]
+  );
+  const view = useMemo(() => boardView(settings, stones), [settings, stones]);
+  const record = useMemo(() => normalizeMoves(settings, moves), [settings, moves]);
+  const shownLatestMove = viewPly === null ? latestMove : moves[viewPly - 1] ?? null;
 
-  const isYourTurn = 
-    playerRole && turnNumber
+  const takebacksLeft =
+    settings.takebacks === null ? null : Math.max(0, settings.takebacks - (takebacksUsed[publicId ?? ""] ?? 0));
+
+  const displayedTime = (role: PlayerRole) => {
+    if (!clock) return 0;
+    const elapsed = clock.running === role && !endGame ? Math.max(0, now - clockReceivedAt) : 0;
+    return clock.timeLeft[role] - elapsed;
+  };
+
+  const isYourTurn = opening
+    ? isOpeningActor
+    : playerRole && turnNumber
       ? (playerRole === "X" && turnNumber % 2 === 1) || (playerRole === "O" && turnNumber % 2 === 0)
       : false;
 
@@ -440,7 +862,7 @@ export default function Room() {
     <div className="app-container">
       {/* Dashboard */}
       <div className="dashboard">
-        {roomId && (
+        {roomId && !isSpectator && (
           <>
             <button
               className={`dashboard-button new-game ${endGame ? "" : "disabled"}`}
@@ -457,26 +879,67 @@ export default function Room() {
               Switch Sides
             </button>
 
-            <button 
-              className="dashboard-button change-name"
-              onClick={() => setShowNameDialog(true)}
+            {settings.takebacks !== 0 && (
+              <button
+                className="dashboard-button takeback"
+                onClick={handleTakebackClick}
+                disabled={endGame || !!opening || takebacksLeft === 0}
+              >
+                Takeback{takebacksLeft !== null ? ` (${takebacksLeft})` : ""}
+              </button>
+            )}
+
+            <button
+              className="dashboard-button offer-draw"
+              onClick={handleOfferDraw}
+              disabled={endGame || turnNumber === null}
             >
-              Change Name
+              Offer Draw
             </button>
 
-            {/* Kick Button */}
-            {isHost && (
+            <button
+              className="dashboard-button resign"
+              onClick={() => setResignDialog(true)}
+              disabled={endGame || turnNumber === null}
+            >
+              Resign
+            </button>
+          </>
+        )}
+
+        {roomId && (
+          <button 
+            className="dashboard-button change-name"
+            onClick={() => setShowNameDialog(true)}
+          >
+            Change Name
+          </button>
+        )}
+
+        {/* Kick / Ban Buttons */}
+        {roomId && isHost && (
+          <>
+            {(["kick", "ban"] as const).map((action) => (
               <button
+                key={action}
                 className="dashboard-button kick"
                 onClick={() => {
-                  socket.emit("kick-player", { roomId });
+                  socket.emit("kick-player", { roomId, ban: action === "ban" });
                   setOpponentStatus("left");
+                  setOpponentDeadline(null);
+                  setRoomFull(false);
                 }}
-                disabled={opponentStatus !== "disconnected"} // disable unless opponent disconnected
+                disabled={opponentStatus !== "connected" && opponentStatus !== "disconnected"} // disable while the seat is empty
               >
-                Kick
+                {action === "kick" ? "Kick" : "Ban"}
               </button>
-            )}
+            ))}
+            <button
+              className="dashboard-button lock-room"
+              onClick={() => socket.emit("set-room-lock", { roomId, locked: !locked })}
+            >
+              {locked ? "Unlock Room" : "Lock Room"}
+            </button>
           </>
         )}
 
@@ -487,9 +950,21 @@ export default function Room() {
           <div className="room-box">
             {/* Top row: label + ID */}
             <div className="room-info">
-              <span className="room-label">{isHost ? "Hosting Room:" : "Joining Room:"}</span>
+              <span className="room-label">
+                {isHost ? "Hosting Room:" : isSpectator ? "Watching Room:" : "Joining Room:"}
+              </span>
               <span className="room-id">{roomId}</span>
             </div>
+            {spectatorCount > 0 && (
+              <div className="room-spectators">
+                {spectatorCount} watching
+              </div>
+            )}
+            <div className="room-rules">
+              {describeBoard(settings)} · {describeRules(settings)} ·{" "}
+              {describeTimeControl(settings.timeControl)} · {settings.rated ? "rated" : "casual"}
+              {locked && " · locked"}
+            </div>
 
             {/* Second row: copy buttons */}
             <div className="copy-buttons">
@@ -527,7 +1002,7 @@ export default function Room() {
 
 
         {/* Turn Indicator Box */}
-        {roomId && (
+        {roomId && !isSpectator && (
           <div
             className={`turn-indicator ${playerRole ?? ""} ${
               playerRole && turnNumber && !endGame
@@ -545,14 +1020,19 @@ export default function Room() {
         {/* Scoreboard */}
         {roomId && (
           <div className="scoreboard">
-            {Object.keys(names).map((clientId) => {
+            {series && settings.seriesLength && (
+              <div className="series-status">
+                {series.over ? "Match over" : `Game ${series.game}`} · Best of {settings.seriesLength}
+              </div>
+            )}
+            {Object.keys(names).map((playerId) => {
               const roleClass =
-                roleMap?.X === clientId ? "red" : roleMap?.O === clientId ? "blue" : "";
+                roleMap?.X === playerId ? "red" : roleMap?.O === playerId ? "blue" : "";
 
               // Determine if this client is the opponent
               const isOpponent =
-                (playerRole === "X" && roleMap?.O === clientId) ||
-                (playerRole === "O" && roleMap?.X === clientId);
+                (playerRole === "X" && roleMap?.O === playerId) ||
+                (playerRole === "O" && roleMap?.X === playerId);
 
               // Diamond status color
               let statusClass = "";
@@ -565,15 +1045,36 @@ export default function Room() {
               }
 
               return (
-                <div key={clientId} className="score-entry">
+                <div key={playerId} className="score-entry">
                   <span className={`status-diamond ${statusClass}`} />
                   <span className={`score-name ${roleClass}`}>
-                    {names[clientId] ?? "-"}
+                    {names[playerId] ?? "-"}
+                  </span>
+                  {ratings[playerId] != null && <span className="score-rating">{ratings[playerId]}</span>}
+                  <span className="score-value">
+                    {series ? series.wins[playerId] ?? 0 : scores[playerId] ?? 0}
                   </span>
-                  <span className="score-value">{scores[clientId] ?? 0}</span>
                 </div>
               );
             })}
+            {series?.over && <div className="series-result">{describeSeriesResult(series)}</div>}
+          </div>
+        )}
+
+        {/* Clocks */}
+        {roomId && clock && (
+          <div className="clock-box">
+            {(["X", "O"] as PlayerRole[]).map((role) => (
+              <div
+                key={role}
+                className={`clock-entry ${role === "X" ? "red" : "blue"} ${
+                  clock.running === role && !endGame ? "running" : ""
+                }`}
+              >
+                <span>{role}</span>
+                <span className="clock-time">{formatClock(displayedTime(role))}</span>
+              </div>
+            ))}
           </div>
         )}
 
@@ -599,6 +1100,7 @@ export default function Room() {
             <input
               type="text"
               placeholder="Your name"
+              maxLength={MAX_NAME_LENGTH}
               value={localName}
               onChange={(e) => setLocalName(e.target.value)}
             />
@@ -610,6 +1112,26 @@ export default function Room() {
         </div>
       )}
 
+      {passwordPrompt && params.roomId && (
+        <div className="name-dialog-overlay">
+          <div className="name-dialog-box">
+            <h2>Room Password</h2>
+            <input
+              type="password"
+              placeholder="Password"
+              maxLength={MAX_PASSWORD_LENGTH}
+              value={roomPassword}
+              onChange={(e) => setRoomPassword(e.target.value)}
+            />
+            <p className="name-error">{passwordPrompt}</p>
+            <div className="name-dialog-buttons">
+              <button onClick={() => joinFromUrl(params.roomId!, roomPassword)}>Join</button>
+              <button onClick={() => navigate("/", { replace: true })}>Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/*New Game Choice Dialog*/}
       {newGameDialog === "proposer" && (
         <div className="new-game-dialog-backdrop">
@@ -641,6 +1163,83 @@ export default function Room() {
         </div>
       )}
 
+      {/* Takeback Dialog */}
+      {takebackDialog === "proposer" && (
+        <div className="new-game-dialog-backdrop">
+          <div className="new-game-dialog">
+            <h2>Waiting for {names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "your opponent"} to accept the takeback...</h2>
+          </div>
+        </div>
+      )}
+
+      {takebackDialog === "receiver" && (
+        <div className="new-game-dialog-backdrop">
+          <div className="new-game-dialog">
+            <h2>{names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "Your opponent"} asks to take back their last move</h2>
+            <div className="new-game-buttons">
+              <button
+                className="new-game-choice-button"
+                onClick={() => respondTakeback(true)}
+              >
+                Accept
+              </button>
+              <button
+                className="new-game-choice-button decline"
+                onClick={() => respondTakeback(false)}
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Draw Dialog */}
+      {drawDialog === "proposer" && (
+        <div className="new-game-dialog-backdrop">
+          <div className="new-game-dialog">
+            <h2>Waiting for {names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "your opponent"} to answer your draw offer...</h2>
+          </div>
+        </div>
+      )}
+
+      {drawDialog === "receiver" && (
+        <div className="new-game-dialog-backdrop">
+          <div className="new-game-dialog">
+            <h2>{names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "Your opponent"} offers a draw</h2>
+            <div className="new-game-buttons">
+              <button
+                className="new-game-choice-button"
+                onClick={() => respondDraw(true)}
+              >
+                Accept
+              </button>
+              <button
+                className="new-game-choice-button decline"
+                onClick={() => respondDraw(false)}
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Resign confirmation */}
+      {resignDialog && (
+        <div className="switch-roles-dialog">
+          <h2>Resign this game?</h2>
+          <div className="switch-roles-buttons">
+            <button className="switch-roles-button decline" onClick={handleResign}>
+              Resign
+            </button>
+            <button className="switch-roles-button" onClick={() => setResignDialog(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Waiting dialog (proposer) */}
       {switchDialog === "waiting" && (
         <div className="switch-roles-dialog">
@@ -656,7 +1255,7 @@ export default function Room() {
             <button
               className="switch-roles-button"
               onClick={() => {
-                socket.emit("respond-switch-roles", { roomId, accepted: true });
+                if (roomId) socket.emit("respond-switch-roles", { roomId, accepted: true });
                 setSwitchDialog(null);
               }}
             >
@@ -666,7 +1265,7 @@ export default function Room() {
             <button
               className="switch-roles-button decline"
               onClick={() => {
-                socket.emit("respond-switch-roles", { roomId, accepted: false });
+                if (roomId) socket.emit("respond-switch-roles", { roomId, accepted: false });
                 setSwitchDialog(null);
               }}
             >
@@ -706,61 +1305,71 @@ export default function Room() {
         </div>
       )}
 
-      {/* Game board */}
-      <div
-        className="board"
-        style={{
-          width: (BOARD_WIDTH-1) * CELL_SIZE,
-          height: (BOARD_HEIGHT-1) * CELL_SIZE,
-        }}
-      >
-        {board.map((rowArr, i) =>
-          rowArr.map((cell, j) => {
-            const x = j * CELL_SIZE;
-            const y = i * CELL_SIZE;
-
-            const isWinning =
-              winningLine?.some((p) => p.row === i && p.col === j) ?? false;
-
-            const isLatestMove =
-              latestMove?.row === i && latestMove?.col === j;
+      {/* End-of-game result */}
+      {roomId && result && (
+        <div className={`result-banner ${result.winner ?? "draw"}`}>
+          {describeResult(result, result.winner ? names[roleMap[result.winner]] : undefined)}
+        </div>
+      )}
 
-            return (
-              <div
-                key={`${i}-${j}`}
-                className="intersection"
-                style={{ left: x - 11, top: y - 13 }}
-                onClick={() => handleClick(i, j)}
-              >
-                {cell === "X" && (
-                  <span
-                    className={`marker-x ${
-                      isWinning ? "winning" : ""
-                    } ${isLatestMove ? "latest-move" : ""}`}
-                  >
-                    X
-                  </span>
-                )}
+      {/* Opening status */}
+      {roomId && opening && (
+        <div className="opening-status">
+          {opening === "place-three" &&
+            (isOpeningActor
+              ? `Opening: place stone ${turnNumber} of 3 (${openingStone})`
+              : `Opening: ${openingActorName} is placing the first three stones`)}
+          {opening === "place-two" &&
+            (isOpeningActor
+              ? `Opening: place stone ${(turnNumber ?? 4) - 3} of 2 (${openingStone})`
+              : `Opening: ${openingActorName} is placing two more stones`)}
+          {(opening === "choose" || opening === "final-choose") &&
+            !isOpeningActor &&
+            `Opening: waiting for ${openingActorName} to choose a side...`}
+        </div>
+      )}
 
-                {cell === "O" && (
-                  <span
-                    className={`marker-o ${
-                      isWinning ? "winning" : ""
-                    } ${isLatestMove ? "latest-move" : ""}`}
-                  >
-                    O
-                  </span>
-                )}
-              </div>
-            );
-          })
-        )}
+      {/* Opening colour choice */}
+      {(opening === "choose" || opening === "final-choose") && isOpeningActor && (
+        <div className="switch-roles-dialog">
+          <h2>Choose your side</h2>
+          <div className="switch-roles-buttons">
+            <button className="switch-roles-button" onClick={() => chooseOpening("X")}>
+              Play X
+            </button>
+            <button className="switch-roles-button" onClick={() => chooseOpening("O")}>
+              Play O
+            </button>
+            {opening === "choose" && settings.opening === "swap2" && (
+              <button className="switch-roles-button" onClick={() => chooseOpening("place-two")}>
+                Place Two More
+              </button>
+            )}
+          </div>
+        </div>
+      )}
 
+      {/* Game board */}
+      <Board
+        view={view}
+        stones={displayStones}
+        winningLine={viewPly === null ? winningLine : null}
+        latestMove={shownLatestMove}
+        forbidden={!endGame && viewPly === null ? forbidden : undefined}
+        onCellClick={handleClick}
+      >
         {/* Waiting Overlay */}
         {!roomFull && isHost && !endGame && (
           <div className="waiting-overlay">
             {opponentStatus === "disconnected" && roleMap && playerRole ? (
-              <>Waiting for {names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "opponent"} to rejoin...</>
+              <div>
+                Waiting for {names[roleMap[playerRole === "X" ? "O" : "X"]] ?? "opponent"} to rejoin...
+                {opponentDeadline !== null && (
+                  <span className="grace-countdown">
+                    {Math.max(0, Math.ceil((opponentDeadline - now) / 1000))}s before they forfeit
+                  </span>
+                )}
+              </div>
             ) : opponentStatus === "left" ? (
               <>Waiting for someone else to join...</>
             ) : (
@@ -768,34 +1377,75 @@ export default function Room() {
             )}
           </div>
         )}
+      </Board>
 
-      </div>
+      {roomId && (
+        <MoveHistory
+          moves={record.moves}
+          boardHeight={record.boardHeight}
+          viewPly={viewPly}
+          onSelect={setViewPly}
+        >
+          {result && (
+            <button className="history-export" onClick={handleExportRecord}>
+              Download Record
+            </button>
+          )}
+        </MoveHistory>
+      )}
 
       {roomId && (
         <div className="chat-window">
+          {/* Players and spectators chat separately; each side can read the other's tab */}
+          {(isSpectator || spectatorCount > 0 || spectatorMessages.length > 0) && (
+            <div className="chat-tabs">
+              <button
+                className={chatTab === "players" ? "active" : ""}
+                onClick={() => setChatTab("players")}
+              >
+                Players
+              </button>
+              <button
+                className={chatTab === "spectators" ? "active" : ""}
+                onClick={() => setChatTab("spectators")}
+              >
+                Spectators ({spectatorCount})
+              </button>
+            </div>
+          )}
           <div className="chat-messages">
-            {messages.map((msg, idx) => {
-              const senderName = names[msg.sender] ?? "Unknown";
-              return (
-                <div key={idx} className="chat-message">
-                  <span className="chat-sender">{senderName}:</span>
-                  <span className="chat-text">{msg.text}</span>
-                </div>
-              );
-            })}
+            {chatTab === "players"
+              ? messages.map((msg, idx) => {
+                  const senderName = names[msg.sender] ?? "Unknown";
+                  return (
+                    <div key={idx} className="chat-message">
+                      <span className="chat-sender">{senderName}:</span>
+                      <span className="chat-text">{msg.text}</span>
+                    </div>
+                  );
+                })
+              : spectatorMessages.map((msg, idx) => (
+                  <div key={idx} className="chat-message">
+                    <span className="chat-sender spectator">{msg.sender}:</span>
+                    <span className="chat-text">{msg.text}</span>
+                  </div>
+                ))}
               <div ref={messagesEndRef} />  {/* anchor */}
 
           </div>
+          {(chatTab === "spectators") === isSpectator && (
           <div className="chat-input">
             <input
               type="text"
               value={newMessage}
               onChange={(e) => setNewMessage(e.target.value)}
               placeholder="Type a message..."
+              maxLength={MAX_CHAT_LENGTH}
               onKeyDown={(e) => e.key === "Enter" && sendMessage()}
             />
             <button onClick={sendMessage}>Send</button>
           </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,186 @@
+// SinglePlayer.tsx
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { DEFAULT_SETTINGS, pointKey, stonesFromMoves, type BoardView, type PlayerRole } from "./roomSettings";
+import { describeResult, type GameResult } from "./gameResult";
+import type { Move } from "./notation";
+import { AI_LEVELS, findWinningLine, type AiLevel, type Cell, type Point } from "./ai/engine";
+import MoveHistory from "./MoveHistory";
+import Board from "./Board";
+
+export interface SinglePlayerOptions {
+  level: AiLevel;
+  boardWidth: number;
+  boardHeight: number;
+  humanRole: PlayerRole;
+}
+
+const DEFAULT_OPTIONS: SinglePlayerOptions = {
+  level: "medium",
+  boardWidth: DEFAULT_SETTINGS.boardWidth,
+  boardHeight: DEFAULT_SETTINGS.boardHeight,
+  humanRole: "X",
+};
+
+export default function SinglePlayer() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const options: SinglePlayerOptions = { ...DEFAULT_OPTIONS, ...(location.state as Partial<SinglePlayerOptions> | null) };
+  const { level, boardWidth, boardHeight, humanRole } = options;
+  const aiRole: PlayerRole = humanRole === "X" ? "O" : "X";
+  const winLength = DEFAULT_SETTINGS.winLength;
+
+  const [moves, setMoves] = useState<Move[]>([]);
+  const [result, setResult] = useState<GameResult | null>(null);
+  const [winningLine, setWinningLine] = useState<Point[] | null>(null);
+  const [thinking, setThinking] = useState(false);
+  const [scores, setScores] = useState({ human: 0, computer: 0 });
+  const [viewPly, setViewPly] = useState<number | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0); // replies to older searches are ignored
+
+  const view = useMemo((): BoardView => ({ top: 0, left: 0, width: boardWidth, height: boardHeight }), [boardWidth, boardHeight]);
+  const stones = useMemo(() => stonesFromMoves(moves.slice(0, viewPly ?? moves.length)), [moves, viewPly]);
+
+  const sideToMove: PlayerRole = moves.length % 2 === 0 ? "X" : "O";
+  const shownLatestMove = moves[(viewPly ?? moves.length) - 1] ?? null;
+
+  // --- Apply a move and check for the end of the game ---
+  const playMove = useCallback((row: number, col: number, role: PlayerRole) => {
+    const next = [...moves, { row, col, role }];
+    setMoves(next);
+
+    const grid: Cell[][] = Array.from({ length: boardHeight }, () => Array(boardWidth).fill(null));
+    for (const move of next) grid[move.row][move.col] = move.role;
+
+    const line = findWinningLine(grid, row, col, winLength);
+    if (line) {
+      setResult({ winner: role, reason: "five" });
+      setWinningLine(line);
+      setScores((s) => (role === humanRole ? { ...s, human: s.human + 1 } : { ...s, computer: s.computer + 1 }));
+    } else if (next.length === boardWidth * boardHeight) {
+      setResult({ winner: null, reason: "board-full" });
+    }
+  }, [moves, boardWidth, boardHeight, winLength, humanRole]);
+
+  // --- AI worker ---
+  useEffect(() => {
+    const worker = new Worker(new URL("./ai/aiWorker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // --- Ask the AI for a move on its turn ---
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker || result || sideToMove !== aiRole) return;
+
+    const grid: Cell[][] = Array.from({ length: boardHeight }, () => Array(boardWidth).fill(null));
+    for (const move of moves) grid[move.row][move.col] = move.role;
+
+    const id = ++requestId.current;
+    let cancelled = false;
+    worker.onmessage = (e: MessageEvent<{ id: number; move: Point }>) => {
+      if (cancelled || e.data.id !== id) return;
+      setThinking(false);
+      playMove(e.data.move.row, e.data.move.col, aiRole);
+    };
+    setThinking(true);
+    worker.postMessage({ id, board: grid, role: aiRole, winLength, level });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [moves, result, sideToMove, aiRole, boardWidth, boardHeight, winLength, level, playMove]);
+
+  // --- Handle clicks ---
+  const handleClick = (row: number, col: number) => {
+    if (result || thinking || viewPly !== null || sideToMove !== humanRole || stones[pointKey(row, col)]) return;
+    playMove(row, col, humanRole);
+  };
+
+  // --- Undo your last move (and the computer's reply) ---
+  const handleUndo = () => {
+    const keep = moves.length - (sideToMove === humanRole ? 2 : 1);
+    if (keep < 0 || thinking) return;
+    if (result?.winner) {
+      setScores((s) => (result.winner === humanRole ? { ...s, human: s.human - 1 } : { ...s, computer: s.computer - 1 }));
+    }
+    setMoves(moves.slice(0, keep));
+    setResult(null);
+    setWinningLine(null);
+    setViewPly(null);
+  };
+
+  const handleNewGame = () => {
+    setMoves([]);
+    setResult(null);
+    setWinningLine(null);
+    setThinking(false);
+    setViewPly(null);
+  };
+
+  const levelLabel = AI_LEVELS.find((l) => l.value === level)?.label ?? level;
+  const humanMoves = moves.filter((m) => m.role === humanRole).length;
+
+  return (
+    <div className="app-container">
+      {/* Dashboard */}
+      <div className="dashboard">
+        <button className="dashboard-menu-button" onClick={() => navigate("/")}>
+          Main Menu
+        </button>
+        <button className="dashboard-button new-game" onClick={handleNewGame}>
+          New Game
+        </button>
+        <button
+          className="dashboard-button takeback"
+          onClick={handleUndo}
+          disabled={thinking || humanMoves === 0}
+        >
+          Undo
+        </button>
+
+        {/* Turn Indicator Box */}
+        <div className={`turn-indicator ${humanRole} ${!result && sideToMove === humanRole ? "" : "inactive"}`}>
+          <span>{thinking ? "Thinking..." : "Your Turn"}</span>
+          <span>{humanRole}</span>
+        </div>
+
+        {/* Scoreboard */}
+        <div className="scoreboard">
+          <div className="score-entry">
+            <span className={`score-name ${humanRole === "X" ? "red" : "blue"}`}>You</span>
+            <span className="score-value">{scores.human}</span>
+          </div>
+          <div className="score-entry">
+            <span className={`score-name ${aiRole === "X" ? "red" : "blue"}`}>Computer ({levelLabel})</span>
+            <span className="score-value">{scores.computer}</span>
+          </div>
+        </div>
+      </div>
+
+      <MoveHistory moves={moves} boardHeight={boardHeight} viewPly={viewPly} onSelect={setViewPly} />
+
+      {/* End-of-game result */}
+      {result && (
+        <div className={`result-banner ${result.winner ?? "draw"}`}>
+          {describeResult(result, result.winner === humanRole ? "You" : result.winner ? "Computer" : undefined)}
+        </div>
+      )}
+
+      {/* Game board */}
+      <Board
+        view={view}
+        stones={stones}
+        winningLine={viewPly === null ? winningLine : null}
+        latestMove={shownLatestMove}
+        onCellClick={handleClick}
+      />
+    </div>
+  );
+}
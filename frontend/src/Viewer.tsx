@@ -0,0 +1,151 @@
+// Viewer.tsx
+import { useState, useMemo, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { boardTag, parseRecord, resultToken, type GameRecord } from "./notation";
+import { describeRules, describeTimeControl, normalizeMoves, stonesFromMoves, type BoardView } from "./roomSettings";
+import { fetchJson } from "./api";
+import MoveHistory from "./MoveHistory";
+import Board from "./Board";
+import type { GameDetail } from "../../shared/protocol";
+
+export default function Viewer() {
+  const navigate = useNavigate();
+
+  const [recordText, setRecordText] = useState("");
+  const [record, setRecord] = useState<GameRecord | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [viewPly, setViewPly] = useState<number | null>(0); // start from the empty board
+  const [searchParams] = useSearchParams();
+  const gameId = searchParams.get("game");
+
+  // --- Load a finished game from the server (/viewer?game=<id>) ---
+  useEffect(() => {
+    if (!gameId) return;
+
+    let cancelled = false;
+    fetchJson<GameDetail>(`/games/${gameId}`)
+      .then((game) => {
+        if (cancelled) return;
+        const { settings } = game;
+        const { moves, boardWidth, boardHeight } = normalizeMoves(settings, game.moves);
+        setRecord({
+          headers: {
+            Event: "Caro",
+            Date: new Date(game.finishedAt).toISOString().slice(0, 10).replace(/-/g, "."),
+            X: game.players.X.name || "X",
+            O: game.players.O.name || "O",
+            Board: boardTag(boardWidth, boardHeight, settings.infinite),
+            WinLength: String(settings.winLength),
+            Rules: describeRules(settings),
+            TimeControl: describeTimeControl(settings.timeControl),
+            Result: resultToken(game.result.winner, true),
+            Termination: game.result.reason,
+          },
+          boardWidth,
+          boardHeight,
+          moves,
+        });
+        setViewPly(0);
+        setLoadError(null);
+      })
+      .catch((err: Error) => !cancelled && setLoadError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
+  // --- Load a record from text ---
+  const loadRecord = (text: string) => {
+    try {
+      setRecord(parseRecord(text));
+      setViewPly(0);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Could not read record");
+    }
+  };
+
+  // --- Load a record from a file ---
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setRecordText(text);
+    loadRecord(text);
+  };
+
+  const view = useMemo(
+    (): BoardView => ({ top: 0, left: 0, width: record?.boardWidth ?? 0, height: record?.boardHeight ?? 0 }),
+    [record]
+  );
+  const stones = useMemo(
+    () => (record ? stonesFromMoves(record.moves.slice(0, viewPly ?? record.moves.length)) : {}),
+    [record, viewPly]
+  );
+
+  const shownPly = record ? viewPly ?? record.moves.length : 0;
+  const latestMove = record && shownPly > 0 ? record.moves[shownPly - 1] : null;
+
+  return (
+    <div className="app-container">
+      {/* Dashboard */}
+      <div className="dashboard">
+        <button className="dashboard-menu-button" onClick={() => navigate("/")}>
+          Main Menu
+        </button>
+        {record && (
+          <button className="dashboard-button new-game" onClick={() => setRecord(null)}>
+            Load Another
+          </button>
+        )}
+      </div>
+
+      {/* Import dialog */}
+      {!record && (
+        <div className="join-dialog-overlay">
+          <div className="join-dialog-box">
+            <h2>Open Game Record</h2>
+            <textarea
+              className="viewer-textarea"
+              value={recordText}
+              onChange={(e) => setRecordText(e.target.value)}
+              placeholder={'[Board "15x15"]\n\n1. h8 i9 2. h9 ...'}
+            />
+            <input type="file" accept=".txt,.pgn,text/plain" onChange={(e) => handleFile(e.target.files?.[0])} />
+            {loadError && <div className="join-error">{loadError}</div>}
+            <div className="join-dialog-buttons">
+              <button className="join-dialog-button" onClick={() => loadRecord(recordText)}>
+                Load
+              </button>
+              <button className="join-dialog-button cancel" onClick={() => navigate("/")}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {record && (
+        <>
+          <MoveHistory
+            moves={record.moves}
+            boardHeight={record.boardHeight}
+            viewPly={viewPly}
+            onSelect={setViewPly}
+          />
+
+          <div className="viewer-headers">
+            {Object.entries(record.headers).map(([key, value]) => (
+              <div key={key}>
+                <span>{key}</span>
+                <span>{value}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Game board */}
+          <Board view={view} stones={stones} latestMove={latestMove} />
+        </>
+      )}
+    </div>
+  );
+}
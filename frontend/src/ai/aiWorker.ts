@@ -0,0 +1,8 @@
+// aiWorker.ts
+// Runs the AI search off the main thread so the board stays responsive.
+import { chooseMove, type AiRequest } from "./engine";
+
+// Replies carry the request id so the page can drop answers it no longer needs
+self.onmessage = (e: MessageEvent<AiRequest & { id: number }>) => {
+  self.postMessage({ id: e.data.id, move: chooseMove(e.data) });
+};
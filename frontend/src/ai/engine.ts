@@ -0,0 +1,244 @@
+// engine.ts
+// Gomoku / caro AI: threat detection on fives, fours and open threes,
+// then alpha-beta (negamax) search over a limited set of candidate moves.
+import type { PlayerRole } from "../roomSettings";
+
+export type Cell = PlayerRole | null;
+export type AiLevel = "easy" | "medium" | "hard";
+export type Point = { row: number; col: number };
+
+export interface AiRequest {
+  board: Cell[][];
+  role: PlayerRole;     // side the AI plays
+  winLength: number;
+  level: AiLevel;
+}
+
+export const AI_LEVELS: { value: AiLevel; label: string }[] = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+// Search effort per level: plies searched and candidate moves tried per node
+const LEVELS: Record<AiLevel, { depth: number; candidates: number }> = {
+  easy: { depth: 1, candidates: 6 },
+  medium: { depth: 2, candidates: 10 },
+  hard: { depth: 4, candidates: 12 },
+};
+
+const DIRECTIONS = [
+  { dr: 0, dc: 1 },
+  { dr: 1, dc: 0 },
+  { dr: 1, dc: 1 },
+  { dr: 1, dc: -1 },
+];
+
+const WIN_SCORE = 100_000_000;
+
+// Shape scores for a line through a candidate point: index = stones in the run
+const OPEN_SHAPE = [0, 10, 100, 5_000, 100_000, 10_000_000];   // both ends empty
+const CLOSED_SHAPE = [0, 1, 10, 500, 50_000, 10_000_000];      // one end blocked
+
+const other = (role: PlayerRole): PlayerRole => (role === "X" ? "O" : "X");
+
+function inBounds(board: Cell[][], r: number, c: number) {
+  return r >= 0 && r < board.length && c >= 0 && c < board[0].length;
+}
+
+// --- Win detection ---
+// The winning run through (row, col), or null. Shared with the single-player page.
+export function findWinningLine(board: Cell[][], row: number, col: number, winLength: number): Point[] | null {
+  const marker = board[row][col];
+  if (!marker) return null;
+
+  for (const { dr, dc } of DIRECTIONS) {
+    const points = [{ row, col }];
+    for (let r = row + dr, c = col + dc; inBounds(board, r, c) && board[r][c] === marker; r += dr, c += dc) {
+      points.push({ row: r, col: c });
+    }
+    for (let r = row - dr, c = col - dc; inBounds(board, r, c) && board[r][c] === marker; r -= dr, c -= dc) {
+      points.unshift({ row: r, col: c });
+    }
+    if (points.length >= winLength) return points;
+  }
+  return null;
+}
+
+// --- Threat detection ---
+// Scores what placing `role` at (row, col) would build along each line:
+// the run it joins (allowing one gap) and whether the ends are open.
+function shapeScore(board: Cell[][], row: number, col: number, role: PlayerRole, winLength: number): number {
+  let total = 0;
+  let strongThreats = 0; // fours and open threes created by this move
+
+  for (const { dr, dc } of DIRECTIONS) {
+    let stones = 1;
+    let openEnds = 0;
+    let gapUsed = false;
+
+    for (const sign of [1, -1]) {
+      let r = row + sign * dr, c = col + sign * dc;
+      while (inBounds(board, r, c)) {
+        if (board[r][c] === role) {
+          stones++;
+        } else if (board[r][c] === null && !gapUsed && inBounds(board, r + sign * dr, c + sign * dc) &&
+          board[r + sign * dr][c + sign * dc] === role) {
+          gapUsed = true; // a single gap still counts towards the shape (e.g. XX_X)
+        } else {
+          break;
+        }
+        r += sign * dr; c += sign * dc;
+      }
+      if (inBounds(board, r, c) && board[r][c] === null) openEnds++;
+    }
+
+    // Scale the run to a five-stone scale so 4- and 6-in-a-row rules score alike
+    const scaled = Math.min(5, stones + (5 - winLength));
+    if (scaled >= 5 && !gapUsed) return OPEN_SHAPE[5];
+    const shape = Math.min(scaled, 4);
+    if (openEnds === 2) total += OPEN_SHAPE[shape];
+    else if (openEnds === 1) total += CLOSED_SHAPE[shape];
+
+    if (shape === 4 && openEnds > 0) strongThreats++;
+    if (shape === 3 && openEnds === 2) strongThreats++;
+  }
+
+  // Two threats at once (four-three, three-three) are usually decisive
+  if (strongThreats >= 2) total += OPEN_SHAPE[4];
+  return total;
+}
+
+// Empty points near existing stones, best first (attack plus defence)
+function candidateMoves(board: Cell[][], role: PlayerRole, winLength: number, limit: number): Point[] {
+  const seen = new Set<string>();
+  const scored: { point: Point; score: number }[] = [];
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (!board[row][col]) continue;
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) {
+          const r = row + dr, c = col + dc;
+          const key = `${r},${c}`;
+          if (!inBounds(board, r, c) || board[r][c] || seen.has(key)) continue;
+          seen.add(key);
+
+          const attack = shapeScore(board, r, c, role, winLength);
+          const defence = shapeScore(board, r, c, other(role), winLength);
+          scored.push({ point: { row: r, col: c }, score: attack * 1.1 + defence });
+        }
+      }
+    }
+  }
+
+  // Empty board: take the centre
+  if (scored.length === 0) {
+    return [{ row: Math.floor(board.length / 2), col: Math.floor(board[0].length / 2) }];
+  }
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, limit).map((s) => s.point);
+}
+
+// Points where `role` completes a winning line right away
+function winningPoints(board: Cell[][], role: PlayerRole, winLength: number, candidates: Point[]): Point[] {
+  return candidates.filter(({ row, col }) => {
+    board[row][col] = role;
+    const wins = findWinningLine(board, row, col, winLength) !== null;
+    board[row][col] = null;
+    return wins;
+  });
+}
+
+// --- Evaluation ---
+// Counts every winLength window that only one side occupies, from `role`'s point of view.
+function evaluate(board: Cell[][], role: PlayerRole, winLength: number): number {
+  const WINDOW_SCORE = [0, 1, 10, 100, 1_000, 10_000, 100_000];
+  let score = 0;
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      for (const { dr, dc } of DIRECTIONS) {
+        const endR = row + (winLength - 1) * dr, endC = col + (winLength - 1) * dc;
+        if (!inBounds(board, endR, endC)) continue;
+
+        let own = 0, opp = 0;
+        for (let k = 0; k < winLength; k++) {
+          const cell = board[row + k * dr][col + k * dc];
+          if (cell === role) own++;
+          else if (cell) opp++;
+        }
+        if (own && !opp) score += WINDOW_SCORE[own];
+        else if (opp && !own) score -= WINDOW_SCORE[opp] * 1.2; // the opponent moves next
+      }
+    }
+  }
+  return score;
+}
+
+// --- Search ---
+function negamax(
+  board: Cell[][],
+  role: PlayerRole,
+  depth: number,
+  alpha: number,
+  beta: number,
+  winLength: number,
+  limit: number
+): number {
+  if (depth === 0) return evaluate(board, role, winLength);
+
+  const candidates = candidateMoves(board, role, winLength, limit);
+  let best = -Infinity;
+
+  for (const { row, col } of candidates) {
+    board[row][col] = role;
+    const score = findWinningLine(board, row, col, winLength)
+      ? WIN_SCORE + depth // prefer quicker wins
+      : -negamax(board, other(role), depth - 1, -beta, -alpha, winLength, limit);
+    board[row][col] = null;
+
+    if (score > best) best = score;
+    if (best > alpha) alpha = best;
+    if (alpha >= beta) break;
+  }
+
+  return best === -Infinity ? 0 : best;
+}
+
+export function chooseMove({ board: input, role, winLength, level }: AiRequest): Point {
+  const board = input.map((r) => [...r]);
+  const { depth, candidates: limit } = LEVELS[level];
+  const opponent = other(role);
+
+  // Threats first: win now, or stop the opponent winning next move
+  const wide = candidateMoves(board, role, winLength, 40);
+  const win = winningPoints(board, role, winLength, wide);
+  if (win.length) return win[0];
+
+  const mustBlock = winningPoints(board, opponent, winLength, wide);
+  if (mustBlock.length) return mustBlock[0];
+
+  const candidates = candidateMoves(board, role, winLength, limit);
+
+  // Easy: a reasonable move, but not always the best one
+  if (level === "easy") {
+    const top = candidates.slice(0, 3);
+    return top[Math.floor(Math.random() * top.length)];
+  }
+
+  let bestMove = candidates[0];
+  let bestScore = -Infinity;
+  for (const move of candidates) {
+    board[move.row][move.col] = role;
+    const score = -negamax(board, opponent, depth - 1, -Infinity, -bestScore, winLength, limit);
+    board[move.row][move.col] = null;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+  }
+  return bestMove;
+}
@@ -0,0 +1,11 @@
+// api.ts
+// Read-only REST calls to the backend (leaderboard, profiles, finished games).
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:5000";
+
+// Resolves the JSON body, or throws with the server's { message } on an error status
+export async function fetchJson<T>(path: string): Promise<T> {
+  const res = await fetch(`${BACKEND_URL}/api${path}`);
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.message ?? `Request failed (${res.status})`);
+  return body as T;
+}
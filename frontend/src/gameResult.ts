@@ -0,0 +1,26 @@
+// gameResult.ts
+import type { GameResult } from "../../shared/protocol";
+
+export type { ResultReason, GameResult } from "../../shared/protocol";
+
+// e.g. "Alice (X) wins on time", "Draw: the board is full"
+export function describeResult(result: GameResult, winnerName?: string): string {
+  const who = result.winner
+    ? winnerName ? `${winnerName} (${result.winner})` : result.winner
+    : "";
+
+  switch (result.reason) {
+    case "five":
+      return `${who} wins with a complete line`;
+    case "resign":
+      return `${who} wins by resignation`;
+    case "timeout":
+      return `${who} wins on time`;
+    case "draw-agreed":
+      return "Draw by agreement";
+    case "board-full":
+      return "Draw: the board is full";
+    case "abandoned":
+      return `${who} wins: the opponent did not reconnect`;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { boardTag, coordinate, exportRecord, parseCoordinate, parseRecord, type Move } from "./notation";
+
+const moves: Move[] = [
+  { row: 7, col: 7, role: "X" },
+  { row: 6, col: 8, role: "O" },
+  { row: 6, col: 7, role: "X" },
+];
+
+describe("coordinates", () => {
+  it("counts rows from the bottom", () => {
+    expect(coordinate({ row: 7, col: 7 }, 15)).toBe("h8");
+    expect(parseCoordinate("h8", 15)).toEqual({ row: 7, col: 7 });
+  });
+
+  it("uses two letters past column z", () => {
+    expect(coordinate({ row: 0, col: 26 }, 30)).toBe("aa30");
+    expect(parseCoordinate("aa30", 30)).toEqual({ row: 0, col: 26 });
+  });
+
+  it("rejects text that is not a coordinate", () => {
+    expect(parseCoordinate("8h", 15)).toBeNull();
+  });
+});
+
+describe("parseRecord", () => {
+  it("reads back an exported record", () => {
+    const text = exportRecord({ Event: "Caro", Board: "15x15", Result: "1-0" }, 15, moves);
+    expect(parseRecord(text)).toEqual({
+      headers: { Event: "Caro", Board: "15x15", Result: "1-0" },
+      boardWidth: 15,
+      boardHeight: 15,
+      moves,
+    });
+  });
+
+  it("unescapes quoted tag values", () => {
+    const text = exportRecord({ X: 'Say "hi" \\o/' }, 15, []);
+    expect(parseRecord(text).headers.X).toBe('Say "hi" \\o/');
+  });
+
+  it("assumes a 15x15 board without a Board tag", () => {
+    const record = parseRecord("1. h8 i9 *");
+    expect([record.boardWidth, record.boardHeight]).toEqual([15, 15]);
+    expect(record.moves.map((m) => m.role)).toEqual(["X", "O"]);
+  });
+
+  it("rejects board sizes outside the allowed range", () => {
+    expect(() => parseRecord('[Board "9x15"]')).toThrow("between 10 and 30");
+    expect(() => parseRecord('[Board "100000x100000"]')).toThrow("between 10 and 30");
+    expect(() => parseRecord('[Board "15 by 15"]')).toThrow("Invalid Board tag");
+  });
+
+  it("allows infinite records up to the playable range", () => {
+    expect(parseRecord(`[Board "${boardTag(40, 3, true)}"]\n\n1. a1 *`).boardWidth).toBe(40);
+    expect(() => parseRecord('[Board "2002x15 infinite"]')).toThrow("between 1 and 2001");
+  });
+
+  it("rejects moves off the board or played twice", () => {
+    expect(() => parseRecord('[Board "10x10"]\n\n1. k1 *')).toThrow('Invalid move "k1"');
+    expect(() => parseRecord("1. h8 h8 *")).toThrow("played twice");
+  });
+});
@@ -0,0 +1,133 @@
+// notation.ts
+import { MAX_BOARD_SIZE, MAX_COORDINATE, MIN_BOARD_SIZE, type Move, type PlayerRole } from "../../shared/protocol";
+
+export type { Move } from "../../shared/protocol";
+
+// Column letters a, b, ... z, aa, ab, ... (boards can be wider than 26)
+function columnLetters(col: number): string {
+  let letters = "";
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(97 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Gomoku-style coordinate: column letter, then row counted from the bottom (e.g. "h8")
+export function coordinate(point: { row: number; col: number }, boardHeight: number): string {
+  return `${columnLetters(point.col)}${boardHeight - point.row}`;
+}
+
+// Parses a coordinate like "h8" back to a board point, or null if it is not one
+export function parseCoordinate(text: string, boardHeight: number): { row: number; col: number } | null {
+  const match = /^([a-z]+)(\d+)$/.exec(text);
+  if (!match) return null;
+
+  let col = 0;
+  for (const ch of match[1]) col = col * 26 + (ch.charCodeAt(0) - 96);
+  return { row: boardHeight - Number(match[2]), col: col - 1 };
+}
+
+// --- Game records ---
+// A PGN-style text record: [Tag "value"] header lines, then numbered coordinate moves.
+//
+//   [Event "Caro"]
+//   [Board "15x15"]
+//   [Result "1-0"]
+//
+//   1. h8 i9 2. h9 i10 3. h10 1-0
+//
+// An infinite game is recorded on the area it was played on, tagged e.g. [Board "23x17 infinite"].
+
+export interface GameRecord {
+  headers: Record<string, string>;
+  boardWidth: number;
+  boardHeight: number;
+  moves: Move[];
+}
+
+const RESULT_TOKENS = ["1-0", "0-1", "1/2-1/2", "*"];
+const DEFAULT_RECORD_SIZE = 15; // standard gomoku board when a record has no Board tag
+const MAX_INFINITE_SIZE = 2 * MAX_COORDINATE + 1; // the whole playable range of an infinite board
+
+// Value of the Board tag
+export function boardTag(boardWidth: number, boardHeight: number, infinite: boolean): string {
+  return `${boardWidth}x${boardHeight}${infinite ? " infinite" : ""}`;
+}
+
+// "1-0" when X won, "0-1" when O won, "1/2-1/2" for a draw, "*" if unfinished
+export function resultToken(winner: PlayerRole | null | undefined, finished: boolean): string {
+  if (!finished) return "*";
+  if (!winner) return "1/2-1/2";
+  return winner === "X" ? "1-0" : "0-1";
+}
+
+export function exportRecord(
+  headers: Record<string, string>,
+  boardHeight: number,
+  moves: Move[]
+): string {
+  const tags = Object.entries(headers)
+    .map(([key, value]) => `[${key} "${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`)
+    .join("\n");
+
+  const body: string[] = [];
+  moves.forEach((move, idx) => {
+    if (idx % 2 === 0) body.push(`${idx / 2 + 1}.`);
+    body.push(coordinate(move, boardHeight));
+  });
+  body.push(headers.Result ?? "*");
+
+  return `${tags}\n\n${body.join(" ")}\n`;
+}
+
+// Throws an Error with a readable message if the record cannot be read
+export function parseRecord(text: string): GameRecord {
+  const headers: Record<string, string> = {};
+  const tokens: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const tag = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(line);
+    if (tag) {
+      headers[tag[1]] = tag[2].replace(/\\(.)/g, "$1");
+    } else {
+      tokens.push(...line.split(/\s+/));
+    }
+  }
+
+  let boardWidth = DEFAULT_RECORD_SIZE;
+  let boardHeight = DEFAULT_RECORD_SIZE;
+  if (headers.Board) {
+    const size = /^(\d+)x(\d+)( infinite)?$/.exec(headers.Board);
+    if (!size) throw new Error(`Invalid Board tag "${headers.Board}"`);
+    boardWidth = Number(size[1]);
+    boardHeight = Number(size[2]);
+
+    // Viewers draw the whole board, so an absurd size must not get that far
+    const [min, max] = size[3] ? [1, MAX_INFINITE_SIZE] : [MIN_BOARD_SIZE, MAX_BOARD_SIZE];
+    if ([boardWidth, boardHeight].some((n) => n < min || n > max)) {
+      throw new Error(`Board size must be between ${min} and ${max}`);
+    }
+  }
+
+  const moves: Move[] = [];
+  const taken = new Set<string>();
+  for (const token of tokens) {
+    if (/^\d+\.$/.test(token) || RESULT_TOKENS.includes(token)) continue;
+
+    const point = parseCoordinate(token.toLowerCase(), boardHeight);
+    if (!point || point.row < 0 || point.row >= boardHeight || point.col < 0 || point.col >= boardWidth) {
+      throw new Error(`Invalid move "${token}"`);
+    }
+    const key = `${point.row},${point.col}`;
+    if (taken.has(key)) throw new Error(`Move "${token}" is played twice`);
+    taken.add(key);
+
+    // Stones alternate X, O from the first move, openings included
+    moves.push({ ...point, role: moves.length % 2 === 0 ? "X" : "O" });
+  }
+
+  return { headers, boardWidth, boardHeight, moves };
+}
@@ -0,0 +1,168 @@
+// roomSettings.ts
+import { MAX_COORDINATE } from "../../shared/protocol";
+import type { Move, OpeningRule, OpeningStage, PlayerRole, RoomSettings, Stones, TimeControl } from "../../shared/protocol";
+
+export type {
+  PlayerRole,
+  OpeningRule,
+  OpeningStage,
+  TimeControl,
+  ClockState,
+  RoomSettings,
+  Stones,
+} from "../../shared/protocol";
+
+export const DEFAULT_SETTINGS: RoomSettings = {
+  boardWidth: 18,
+  boardHeight: 25,
+  winLength: 5,
+  blockedEnds: false,
+  noOverline: false,
+  renju: false,
+  opening: "none",
+  timeControl: null,
+  takebacks: 0,
+  isPublic: false,
+  seriesLength: null,
+  rated: false,
+  infinite: false,
+};
+
+// Board sizes offered to the host (width x height)
+export const BOARD_SIZES = [
+  { label: "15 x 15", boardWidth: 15, boardHeight: 15 },
+  { label: "19 x 19", boardWidth: 19, boardHeight: 19 },
+  { label: "18 x 25", boardWidth: 18, boardHeight: 25 },
+];
+
+export const WIN_LENGTHS = [4, 5, 6];
+
+export const OPENING_RULES: { value: OpeningRule; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "swap", label: "Swap" },
+  { value: "swap2", label: "Swap2" },
+];
+
+export const TIME_CONTROLS: { label: string; value: TimeControl | null }[] = [
+  { label: "Untimed", value: null },
+  { label: "3 min + 2 s", value: { baseMs: 3 * 60_000, incrementMs: 2_000, moveMs: 0 } },
+  { label: "5 min + 5 s", value: { baseMs: 5 * 60_000, incrementMs: 5_000, moveMs: 0 } },
+  { label: "10 min", value: { baseMs: 10 * 60_000, incrementMs: 0, moveMs: 0 } },
+  { label: "10 min, 1 min per move", value: { baseMs: 10 * 60_000, incrementMs: 0, moveMs: 60_000 } },
+  { label: "30 s per move", value: { baseMs: 0, incrementMs: 0, moveMs: 30_000 } },
+];
+
+export const SERIES_OPTIONS: { label: string; value: number | null }[] = [
+  { label: "Open-ended", value: null },
+  { label: "Best of 3", value: 3 },
+  { label: "Best of 5", value: 5 },
+  { label: "Best of 7", value: 7 },
+];
+
+export const TAKEBACK_OPTIONS: { label: string; value: number | null }[] = [
+  { label: "Not allowed", value: 0 },
+  { label: "1 per game", value: 1 },
+  { label: "3 per game", value: 3 },
+  { label: "Unlimited", value: null },
+];
+
+// m:ss, rounding up so a clock never shows 0:00 while time is left
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(Math.max(0, ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// e.g. "5 min + 5 s", "30 s per move"
+export function describeTimeControl(tc: TimeControl | null): string {
+  if (!tc) return "untimed";
+  const parts: string[] = [];
+  if (tc.baseMs > 0) parts.push(`${tc.baseMs / 60_000} min`);
+  if (tc.incrementMs > 0) parts.push(`+ ${tc.incrementMs / 1000} s`);
+  const main = parts.join(" ");
+  if (tc.moveMs <= 0) return main;
+  const perMove = `${tc.moveMs / 1000} s per move`;
+  return main ? `${main}, ${perMove}` : perMove;
+}
+
+export function createBoard(settings: RoomSettings): (PlayerRole | null)[][] {
+  return Array.from({ length: settings.boardHeight }, () =>
+    Array(settings.boardWidth).fill(null)
+  );
+}
+
+// --- Stones (sparse, keyed "row,col" like the server) ---
+export function pointKey(row: number, col: number): string {
+  return `${row},${col}`;
+}
+
+export function stonesFromMoves(moves: Move[]): Stones {
+  return Object.fromEntries(moves.map(({ row, col, role }) => [pointKey(row, col), role]));
+}
+
+// The rows and columns to draw, in board coordinates
+export interface BoardView {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+const INFINITE_START = 7;  // an empty infinite board shows (0, 0) with 7 points on every side
+const INFINITE_MARGIN = 4; // free points kept beyond the outermost stones
+
+// A fixed board is drawn whole. An infinite one grows to keep a margin around every stone,
+// up to the edge of the playable range.
+export function boardView(settings: RoomSettings, stones: Stones): BoardView {
+  if (!settings.infinite) {
+    return { top: 0, left: 0, width: settings.boardWidth, height: settings.boardHeight };
+  }
+
+  let top = -INFINITE_START, bottom = INFINITE_START, left = -INFINITE_START, right = INFINITE_START;
+  for (const key of Object.keys(stones)) {
+    const [row, col] = key.split(",").map(Number);
+    top = Math.min(top, row - INFINITE_MARGIN);
+    bottom = Math.max(bottom, row + INFINITE_MARGIN);
+    left = Math.min(left, col - INFINITE_MARGIN);
+    right = Math.max(right, col + INFINITE_MARGIN);
+  }
+  top = Math.max(top, -MAX_COORDINATE);
+  left = Math.max(left, -MAX_COORDINATE);
+  bottom = Math.min(bottom, MAX_COORDINATE);
+  right = Math.min(right, MAX_COORDINATE);
+  return { top, left, width: right - left + 1, height: bottom - top + 1 };
+}
+
+// Moves in record coordinates for notation and replays. A fixed board is unchanged;
+// an infinite one is cut to the area it was played on and shifted to start at (0, 0).
+export function normalizeMoves(settings: RoomSettings, moves: Move[]): { moves: Move[]; boardWidth: number; boardHeight: number } {
+  if (!settings.infinite) return { moves, boardWidth: settings.boardWidth, boardHeight: settings.boardHeight };
+
+  const view = boardView(settings, stonesFromMoves(moves));
+  return {
+    moves: moves.map((m) => ({ ...m, row: m.row - view.top, col: m.col - view.left })),
+    boardWidth: view.width,
+    boardHeight: view.height,
+  };
+}
+
+// e.g. "18 x 25", "infinite board"
+export function describeBoard(settings: RoomSettings): string {
+  return settings.infinite ? "infinite board" : `${settings.boardWidth} x ${settings.boardHeight}`;
+}
+
+// Short human-readable summary of the win rules, e.g. "5 in a row · blocked ends"
+export function describeRules(settings: RoomSettings): string {
+  const parts = [`${settings.winLength} in a row`];
+  if (settings.noOverline) parts.push("exact length");
+  if (settings.blockedEnds) parts.push("blocked ends");
+  if (settings.renju) parts.push("renju");
+  if (settings.opening !== "none") parts.push(settings.opening);
+  return parts.join(" · ");
+}
+
+// Opening stage a fresh game starts in (mirrors the server)
+export function initialOpening(settings: RoomSettings): OpeningStage | null {
+  return settings.opening === "none" ? null : "place-three";
+}
@@ -1,14 +1,16 @@
 // socket.ts
-import io from "socket.io-client";
+import io, { type Socket } from "socket.io-client";
+import type { ClientToServerEvents, ServerToClientEvents } from "../../shared/protocol";
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
 
-let clientId = localStorage.getItem("clientId");
-if (!clientId) {
-  clientId = crypto.randomUUID();
-  localStorage.setItem("clientId", clientId);
-}
+// The server issues a signed session token on first connect;
+// it is sent back on every (re)connect to keep the same identity.
+export const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(BACKEND_URL, {
+  auth: (cb: (data: object) => void) => cb({ token: localStorage.getItem("sessionToken") }),
+});
 
-export const socket = io(BACKEND_URL, {
-  query: { clientId },
-});
\ No newline at end of file
+socket.on("session", ({ token, publicId }) => {
+  localStorage.setItem("sessionToken", token);
+  localStorage.setItem("publicId", publicId); // links to the player's own profile
+});
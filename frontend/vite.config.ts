@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The socket protocol lives in ../shared, next to the backend
+  server: {
+    fs: { allow: [".", "../shared"] },
+  },
 })
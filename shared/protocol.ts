@@ -0,0 +1,273 @@
+// protocol.ts
+// The Socket.IO contract shared by backend and frontend: game types, payloads and event maps.
+
+export type PlayerRole = "X" | "O";
+export type OpeningRule = "none" | "swap" | "swap2";
+
+// Swap:  first player places three stones, second player picks a colour.
+// Swap2: the second player may instead place two more stones and let the first player pick.
+export type OpeningStage = "place-three" | "choose" | "place-two" | "final-choose";
+
+// Total time per side, plus either a Fischer increment or a cap on each single move.
+// baseMs may be 0 when only the per-move cap applies.
+export interface TimeControl {
+  baseMs: number;
+  incrementMs: number;
+  moveMs: number;
+}
+
+export interface RoomSettings {
+  boardWidth: number;                       // number of columns
+  boardHeight: number;                      // number of rows
+  winLength: number;                        // stones in a row needed to win
+  blockedEnds: boolean;                     // a run capped by the opponent at both ends does not win
+  noOverline: boolean;                      // runs longer than winLength do not win
+  renju: boolean;                           // X may not make double-threes, double-fours or overlines
+  opening: OpeningRule;                     // opening protocol played before normal turns
+  timeControl: TimeControl | null;          // null = untimed
+  takebacks: number | null;                 // takebacks allowed per player per game, null = unlimited
+  isPublic: boolean;                        // listed in the lobby while waiting for an opponent
+  seriesLength: number | null;              // best-of-N match, null = open-ended play
+  rated: boolean;                           // finished games update both players' ratings
+  infinite: boolean;                        // no edges: play spreads in every direction and the board size is ignored
+}
+
+export interface Point {
+  row: number;
+  col: number;
+}
+
+export interface Move extends Point {
+  role: PlayerRole;
+}
+
+// Occupied points only, keyed "row,col". Infinite boards start around (0, 0) and may use negative coordinates.
+export type Stones = Record<string, PlayerRole>;
+
+export type ResultReason = "five" | "resign" | "timeout" | "draw-agreed" | "board-full" | "abandoned";
+
+export interface GameResult {
+  winner: PlayerRole | null;                // null for draws
+  reason: ResultReason;
+}
+
+// Time left per side when the state was sent; clients count down the running side locally
+export interface ClockState {
+  timeLeft: Record<PlayerRole, number>;
+  running: PlayerRole | null;
+}
+
+// Progress of a best-of-N match; colours swap after every game so the first move alternates
+export interface SeriesState {
+  game: number;                             // 1-based number of the current game
+  wins: Record<string, number>;             // public id -> games won in this series
+  draws: number;
+  over: boolean;                            // someone reached the majority, or all games were played
+  winner: string | null;                    // public id of the series winner (null while running or if tied)
+}
+
+// Players are identified by public ids, never by their session's client id
+export interface ChatMessage {
+  sender: string;                           // public id (players) or display name (spectators)
+  text: string;
+}
+
+// --- Limits ---
+export const MIN_BOARD_SIZE = 10;
+export const MAX_BOARD_SIZE = 30;
+export const MAX_ROOM_ID_LENGTH = 32;
+export const MAX_PASSWORD_LENGTH = 64;
+export const MAX_COORDINATE = 1000;           // how far from (0, 0) an infinite board may be played
+export const MAX_NAME_LENGTH = 24;
+export const MAX_CHAT_LENGTH = 500;
+export const MAX_SERIES_LENGTH = 15;
+
+// --- Server -> client payloads ---
+export interface SyncState {
+  stones: Stones;
+  turnNumber: number;
+  result: GameResult | null;
+  line?: Point[];
+  moves: Move[];
+  names: Record<string, string>;            // public id -> display name
+  scores: Record<string, number>;           // public id -> score
+  roleMap: Record<PlayerRole, string>;      // role -> public id ("" when the seat is empty)
+  messages: ChatMessage[];
+  settings: RoomSettings;
+  opening: OpeningStage | null;
+  takebacksUsed: Record<string, number>;    // public id -> takebacks used this game
+  clock: ClockState | null;
+  forbidden: Point[];                       // Renju points X may not play
+  spectatorCount: number;
+  spectatorMessages: ChatMessage[];
+  series: SeriesState | null;
+  ratings: Record<string, number>;          // public id -> rating
+  graceMs: number | null;                   // time left for a disconnected player to return
+  locked: boolean;
+  hasPassword: boolean;
+}
+
+export interface MoveMadePayload extends Move {
+  turnNumber: number;
+  forbidden: Point[];
+  clock?: ClockState | null;
+}
+
+// row/col/role are absent when the game ends without a move (resign, timeout, draw)
+export interface GameOverPayload extends Partial<Move> {
+  turnNumber: number;
+  line: Point[];
+  winner: PlayerRole | null;
+  reason: ResultReason;
+  scores: Record<string, number>;
+  clock: ClockState | null;
+  series: SeriesState | null;
+  ratings: Record<string, number>;          // after this game was rated
+}
+
+export interface RoleChangePayload {
+  newRole: PlayerRole;
+  roleMap: Record<PlayerRole, string>;
+}
+
+// A public room with one seat open, as shown in the lobby
+export interface LobbyRoom {
+  roomId: string;
+  hostName: string;                         // "" until the host has picked a name
+  hostRole: PlayerRole;                     // the joining player gets the other colour
+  settings: RoomSettings;
+  hasPassword: boolean;
+  listedAt: number;                         // Date.now() when the room appeared in the lobby
+}
+
+export interface ServerToClientEvents {
+  "session": (session: { token: string; publicId: string }) => void;
+  "sync-state": (state: SyncState) => void;
+  "move-made": (payload: MoveMadePayload) => void;
+  "game-over": (payload: GameOverPayload) => void;
+  "clock-updated": (payload: { clock: ClockState | null }) => void;
+  "opening-updated": (payload: { opening: OpeningStage | null }) => void;
+  "opening-finished": (payload: RoleChangePayload) => void;
+  "switch-roles-accepted": (payload: RoleChangePayload) => void;
+  "spectators-updated": (payload: { count: number }) => void;
+  "lobby-room-updated": (room: LobbyRoom) => void;
+  "lobby-room-removed": (payload: { roomId: string }) => void;
+  "match-found": (match: MatchFound) => void;
+  "chat-message": (message: ChatMessage) => void;
+  "spectator-chat-message": (message: ChatMessage) => void;
+  "player-joined": () => void;
+  "host-changed": () => void;
+  "opponent-left": () => void;
+  "opponent-disconnected": (payload: { graceMs: number }) => void;
+  "opponent-timed-out": (payload: { forfeited: boolean }) => void;   // the seat is free again
+  "opponent-intentionally-left": () => void;
+  "room-left-intentional": () => void;
+  "kicked": () => void;
+  "room-lock-changed": (payload: { locked: boolean }) => void;
+  "room-expiring": (payload: { expiresInMs: number }) => void;   // any activity in the room cancels it
+  "room-expired": () => void;                                    // the room is gone
+
+  "banned": (payload: { retryAfterMs: number }) => void;   // sent just before a flooding client is disconnected
+  "new-game-request": () => void;
+  "new-game-started": (payload: { roleMap: Record<PlayerRole, string>; series: SeriesState | null }) => void;
+  "new-game-declined": () => void;
+  "takeback-request": () => void;
+  "takeback-declined": () => void;
+  "takeback-accepted": () => void;
+  "draw-offer": () => void;
+  "draw-declined": () => void;
+  "switch-roles-request": () => void;
+  "switch-roles-declined": () => void;
+}
+
+// --- Client -> server ---
+// Every request may be answered with an ack; failures always look like { success: false, message }.
+// code lets the client react to a failure without parsing the message.
+export type AckErrorCode = "password-required";
+export type AckResponse<T = object> = ({ success: true } & T) | { success: false; message: string; code?: AckErrorCode };
+export type Ack<T = object> = (res: AckResponse<T>) => void;
+
+export interface RoomJoined {
+  roomId: string;
+  role: PlayerRole | null;                  // null for spectators
+  spectator?: boolean;
+  nameSet: boolean;
+  publicId: string;
+}
+
+export interface MatchFound {
+  roomId: string;
+  role: PlayerRole;
+  isHost: boolean;
+  publicId: string;
+}
+
+type RoomRequest = { roomId: string };
+
+export type RoomOptions = Partial<RoomSettings> & { password?: string };   // an empty password means none
+
+export interface ClientToServerEvents {
+  "requestRoom": (options: RoomOptions, ack?: Ack<{ roomId: string; role: PlayerRole; publicId: string }>) => void;
+  "join-room": (payload: RoomRequest & { password?: string }, ack?: Ack<RoomJoined>) => void;
+  "sync-request": (payload: RoomRequest, ack?: Ack) => void;
+  "get-name": (payload: RoomRequest & { name: string }, ack?: Ack) => void;
+  "make-move": (payload: RoomRequest & Move, ack?: Ack) => void;
+  "opening-place": (payload: RoomRequest & Point, ack?: Ack) => void;
+  "opening-choose": (payload: RoomRequest & { choice: PlayerRole | "place-two" }, ack?: Ack) => void;
+  "propose-new-game": (payload: RoomRequest, ack?: Ack) => void;
+  "respond-new-game": (payload: RoomRequest & { accept: boolean }, ack?: Ack) => void;
+  "propose-takeback": (payload: RoomRequest, ack?: Ack) => void;
+  "respond-takeback": (payload: RoomRequest & { accept: boolean }, ack?: Ack) => void;
+  "resign": (payload: RoomRequest, ack?: Ack) => void;
+  "offer-draw": (payload: RoomRequest, ack?: Ack) => void;
+  "respond-draw": (payload: RoomRequest & { accept: boolean }, ack?: Ack) => void;
+  "leaving-game": (payload: RoomRequest, ack?: Ack) => void;
+  "propose-switch-roles": (payload: RoomRequest, ack?: Ack) => void;
+  "respond-switch-roles": (payload: RoomRequest & { accepted: boolean }, ack?: Ack) => void;
+  "kick-player": (payload: RoomRequest & { ban?: boolean }, ack?: Ack) => void;
+  "set-room-lock": (payload: RoomRequest & { locked: boolean }, ack?: Ack) => void;
+  "chat-message": (payload: RoomRequest & { text: string }, ack?: Ack) => void;
+  "subscribe-lobby": (payload: object, ack?: Ack<{ rooms: LobbyRoom[] }>) => void;
+  "unsubscribe-lobby": (payload: object, ack?: Ack) => void;
+  "find-match": (payload: object, ack?: Ack) => void;
+  "cancel-match": (payload: object, ack?: Ack) => void;
+}
+
+// --- REST API (read-only JSON under /api) ---
+// Lists are paginated with ?page= (from 1) and ?limit=; errors are { message }.
+export interface Page<T> {
+  items: T[];
+  page: number;
+  limit: number;
+  total: number;
+}
+
+export interface PlayerStats {
+  playerId: string;                         // public id
+  name: string;
+  rating: number;
+  played: number;                           // rated games only
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface LeaderboardEntry extends PlayerStats {
+  rank: number;
+}
+
+export type LeaderboardSort = "rating" | "wins";
+
+export interface GameSummary {
+  id: string;
+  finishedAt: number;
+  settings: RoomSettings;
+  players: Record<PlayerRole, { playerId: string; name: string }>;
+  result: GameResult;
+  rated: boolean;
+  moveCount: number;
+}
+
+export interface GameDetail extends GameSummary {
+  moves: Move[];
+}